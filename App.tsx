@@ -1,14 +1,46 @@
-import { useState } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import Header from '@/components/Header';
 import UploadZone from '@/components/UploadZone';
 import PdfViewer from '@/components/PdfViewer';
 import DefinitionPopup from '@/components/DefinitionPopup';
 import InfoSection from '@/components/InfoSection';
-import { PopupState } from '@/types/pdf';
+import SettingsDialog from '@/components/SettingsDialog';
+import VocabularyPanel from '@/components/VocabularyPanel';
+import ReviewPanel from '@/components/ReviewPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import RecentDocuments from '@/components/RecentDocuments';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { OpenedFile, PopupState, WordContext } from '@/types/pdf';
 import { fetchDefinition } from '@/lib/dictionaryApi';
+import { ReaderSettings, loadSettings, saveSettings, getEnabledProviderIds } from '@/lib/settings';
+import { DEFAULT_LANGUAGE } from '@/lib/languageDetection';
+import { createVocabularyEntry, saveVocabularyEntry, findVocabularyEntry } from '@/lib/vocabulary';
+import { recordLookup, countDueCards } from '@/lib/reviewDeck';
+import { recordHistory } from '@/lib/lookupHistory';
+import { rememberRecentDocument } from '@/lib/recentDocuments';
+
+// One open document. Every tab keeps its own PdfViewer mounted; documents
+// load the first time their tab is shown.
+interface DocumentTab extends OpenedFile {
+  id: string;
+  visited: boolean;
+  language: string;
+}
+
+// Tab value of the upload screen
+const NEW_TAB = 'new';
+
+// Callbacks handed to one tab's viewer, created once so they keep their identity
+interface TabCallbacks {
+  onLanguageChange: (language: string) => void;
+  onDocumentLoad: (key: string, numPages: number) => void;
+}
+
+let nextTabId = 1;
 
 export default function App() {
-  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  const [tabs, setTabs] = useState<DocumentTab[]>([]);
+  const [activeTabId, setActiveTabId] = useState(NEW_TAB);
   const [popupState, setPopupState] = useState<PopupState>({
     visible: false,
     x: 0,
@@ -17,48 +49,172 @@ export default function App() {
     loading: false,
     data: null,
     error: null,
+    context: null,
+    savedId: null,
   });
+  const [settings, setSettings] = useState<ReaderSettings>(() => loadSettings());
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [vocabularyOpen, setVocabularyOpen] = useState(false);
+  const [reviewOpen, setReviewOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [dueCount, setDueCount] = useState(0);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const activeTab = tabs.find((tab) => tab.id === activeTabId) || null;
+  const documentLanguageRef = useRef(DEFAULT_LANGUAGE);
+  documentLanguageRef.current = activeTab?.language || DEFAULT_LANGUAGE;
+  const tabCallbacksRef = useRef(new Map<string, TabCallbacks>());
+  // Id of the lookup the popup shows; answers to earlier ones are dropped
+  const lookupIdRef = useRef(0);
 
-  const handleFileSelect = (file: File) => {
-    setPdfFile(file);
-    setPopupState({
-      visible: false,
-      x: 0,
-      y: 0,
-      word: '',
-      loading: false,
-      data: null,
-      error: null,
-    });
+  const refreshDueCount = useCallback(() => {
+    countDueCards().then(setDueCount);
+  }, []);
+
+  useEffect(() => {
+    refreshDueCount();
+  }, [refreshDueCount]);
+
+  const handleSettingsChange = (next: ReaderSettings) => {
+    console.log('[App] Settings changed:', next);
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const isSameFile = (a: File, b: File) =>
+    a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+  // Open each file in a new tab (or switch to it if it is already open)
+  const handleFilesSelect = (files: OpenedFile[]) => {
+    const added: DocumentTab[] = [];
+    let firstId: string | null = null;
+
+    for (const opened of files) {
+      const existing = tabs.find((tab) => isSameFile(tab.file, opened.file));
+      if (existing) {
+        firstId = firstId || existing.id;
+        continue;
+      }
+      const tab = { ...opened, id: `tab-${nextTabId++}`, visited: false, language: DEFAULT_LANGUAGE };
+      added.push(tab);
+      firstId = firstId || tab.id;
+    }
+
+    console.log('[App] Opening', files.length, 'file(s),', added.length, 'new tab(s)');
+    setTabs((prev) => [...prev, ...added]);
+    if (firstId) {
+      handleTabChange(firstId);
+    }
+  };
+
+  const handleTabChange = (id: string) => {
+    setActiveTabId(id);
+    setTabs((prev) =>
+      prev.some((tab) => tab.id === id && !tab.visited)
+        ? prev.map((tab) => (tab.id === id ? { ...tab, visited: true } : tab))
+        : prev
+    );
+    handleClosePopup();
+  };
+
+  const handleCloseTab = (id: string) => {
+    const index = tabs.findIndex((tab) => tab.id === id);
+    const remaining = tabs.filter((tab) => tab.id !== id);
+    setTabs(remaining);
+    tabCallbacksRef.current.delete(id);
+    if (id === activeTabId) {
+      const next = remaining[Math.min(index, remaining.length - 1)];
+      handleTabChange(next ? next.id : NEW_TAB);
+    }
+  };
+
+  // Only store real changes, so reporting the same language again is free
+  const handleLanguageChange = useCallback((id: string, language: string) => {
+    setTabs((prev) =>
+      prev.some((tab) => tab.id === id && tab.language !== language)
+        ? prev.map((tab) => (tab.id === id ? { ...tab, language } : tab))
+        : prev
+    );
+  }, []);
+
+  // Once a viewer knows the fingerprint, list the file under recent documents
+  const handleDocumentLoad = useCallback((tab: DocumentTab, key: string, numPages: number) => {
+    rememberRecentDocument(key, tab.file, numPages, tab.handle).catch((err) =>
+      console.warn('[App] Failed to remember recent document:', err)
+    );
+  }, []);
+
+  // Stable per tab: inline arrows would be new on every App render and make
+  // every mounted viewer re-run the effects that depend on them
+  const callbacksFor = (tab: DocumentTab): TabCallbacks => {
+    let callbacks = tabCallbacksRef.current.get(tab.id);
+    if (!callbacks) {
+      callbacks = {
+        onLanguageChange: (language) => handleLanguageChange(tab.id, language),
+        onDocumentLoad: (key, numPages) => handleDocumentLoad(tab, key, numPages),
+      };
+      tabCallbacksRef.current.set(tab.id, callbacks);
+    }
+    return callbacks;
   };
 
-  const handleWordClick = async (word: string, x: number, y: number) => {
-    console.log('[App] Word clicked:', word, 'at coords:', { x, y });
+
+  // Look up a word from the popup's word chips, keeping the popup in place
+  const handleLookupWord = (word: string) => {
+    console.log('[App] Looking up word from popup:', word);
+    showDefinition(word, popupState.x, popupState.y, popupState.context);
+  };
+
+  // Reads settings and language through refs so it, and the viewer
+  // callbacks built on it, keep their identity across renders
+  const showDefinition = useCallback(async (word: string, x: number, y: number, context: WordContext | null) => {
+    const lookupId = ++lookupIdRef.current;
+    const isCurrent = () => lookupId === lookupIdRef.current;
 
     // Set popup visible immediately with loading state
     setPopupState({
       visible: true,
-      x: x + 16,
-      y: y + 16,
+      x,
+      y,
       word,
       loading: true,
       data: null,
       error: null,
+      context,
+      savedId: null,
     });
 
     try {
       console.log('[App] Fetching definition for:', word);
-      const definition = await fetchDefinition(word);
+      const definition = await fetchDefinition(
+        word,
+        getEnabledProviderIds(settingsRef.current),
+        documentLanguageRef.current
+      );
 
       console.log('[App] Definition received:', definition);
 
+      const saved = definition.error ? null : await findVocabularyEntry(definition.word, definition.language);
+
+      // Every found word goes into the lookup history and the review deck
+      if (!definition.error) {
+        recordHistory(definition, context);
+        recordLookup(definition, context).then(refreshDueCount);
+      }
+
+      if (!isCurrent()) {
+        console.log('[App] Dropping definition of', word, '(a newer lookup is showing)');
+        return;
+      }
       setPopupState((prev) => ({
         ...prev,
         loading: false,
         data: definition,
+        savedId: saved?.id || null,
       }));
     } catch (err) {
       console.error('[App] Error fetching definition:', err);
+      if (!isCurrent()) return;
 
       // If error is due to invalid word, don't show popup
       if (err instanceof Error && err.message === 'Invalid word format') {
@@ -70,6 +226,8 @@ export default function App() {
           loading: false,
           data: null,
           error: null,
+          context: null,
+          savedId: null,
         });
         return;
       }
@@ -80,9 +238,29 @@ export default function App() {
         error: err instanceof Error ? err.message : 'Failed to fetch definition',
       }));
     }
+  }, [refreshDueCount]);
+
+  const handleWordClick = useCallback((word: string, x: number, y: number, context: WordContext | null) => {
+    console.log('[App] Word clicked:', word, 'at coords:', { x, y }, 'context:', context);
+    showDefinition(word, x + 16, y + 16, context);
+  }, [showDefinition]);
+
+  const handleSaveWord = async () => {
+    const { data, context } = popupState;
+    if (!data || data.error) return;
+
+    const entry = createVocabularyEntry(data, context);
+    try {
+      await saveVocabularyEntry(entry);
+      setPopupState((prev) => (prev.data === data ? { ...prev, savedId: entry.id } : prev));
+    } catch (err) {
+      console.error('[App] Failed to save word:', err);
+      window.alert('Could not save the word to your vocabulary.');
+    }
   };
 
-  const handleClosePopup = () => {
+  const handleClosePopup = useCallback(() => {
+    lookupIdRef.current++;
     setPopupState({
       visible: false,
       x: 0,
@@ -91,21 +269,64 @@ export default function App() {
       loading: false,
       data: null,
       error: null,
+      context: null,
+      savedId: null,
     });
-  };
+  }, []);
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header />
+      <Header
+        dueCount={dueCount}
+        onOpenSettings={() => setSettingsOpen(true)}
+        onOpenVocabulary={() => setVocabularyOpen(true)}
+        onOpenReview={() => setReviewOpen(true)}
+        onOpenHistory={() => setHistoryOpen(true)}
+      />
 
       <main className="mx-auto w-full max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
-        {!pdfFile && <UploadZone onFileSelect={handleFileSelect} />}
+        <Tabs defaultValue={NEW_TAB} value={activeTabId} onValueChange={handleTabChange}>
+          {tabs.length > 0 && (
+            <TabsList className="mb-4 gap-1 overflow-x-auto border-b border-gray-200">
+              {tabs.map((tab) => (
+                <div key={tab.id} className="flex items-center max-w-[16rem]">
+                  <TabsTrigger value={tab.id} className="min-w-0">
+                    <span className="block truncate" title={tab.file.name}>
+                      📄 {tab.file.name}
+                    </span>
+                  </TabsTrigger>
+                  <button
+                    onClick={() => handleCloseTab(tab.id)}
+                    className="px-1 text-xs text-gray-400 hover:text-red-600"
+                    aria-label={`Close ${tab.file.name}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <TabsTrigger value={NEW_TAB}>+ Open</TabsTrigger>
+            </TabsList>
+          )}
+          <TabsContent value={NEW_TAB}>
+            <UploadZone onFilesSelect={handleFilesSelect} />
+            <RecentDocuments onOpen={(opened) => handleFilesSelect([opened])} />
+          </TabsContent>
+        </Tabs>
 
-        <PdfViewer
-          file={pdfFile}
-          onWordClick={handleWordClick}
-          onClosePopup={handleClosePopup}
-        />
+        {/* Viewers stay mounted so each tab keeps its page and state; hidden
+            ones release their canvases (see PdfViewer's `active`) */}
+        {tabs.map((tab) => (
+          <div key={tab.id} style={{ display: tab.id === activeTabId ? undefined : 'none' }}>
+            <PdfViewer
+              file={tab.visited ? tab.file : null}
+              active={tab.id === activeTabId}
+              onWordClick={handleWordClick}
+              onClosePopup={handleClosePopup}
+              onLanguageChange={callbacksFor(tab).onLanguageChange}
+              onDocumentLoad={callbacksFor(tab).onDocumentLoad}
+            />
+          </div>
+        ))}
 
         <InfoSection />
       </main>
@@ -119,6 +340,22 @@ export default function App() {
         data={popupState.data}
         error={popupState.error}
         onClose={handleClosePopup}
+        onLookupWord={handleLookupWord}
+        saved={!!popupState.savedId}
+        onSave={handleSaveWord}
+      />
+
+      <VocabularyPanel open={vocabularyOpen} onOpenChange={setVocabularyOpen} />
+
+      <ReviewPanel open={reviewOpen} onOpenChange={setReviewOpen} onReviewed={refreshDueCount} />
+
+      <HistoryPanel open={historyOpen} onOpenChange={setHistoryOpen} />
+
+      <SettingsDialog
+        open={settingsOpen}
+        settings={settings}
+        onOpenChange={setSettingsOpen}
+        onChange={handleSettingsChange}
       />
     </div>
   );
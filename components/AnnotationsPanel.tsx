@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from 'react';
+import { Annotation } from '@/types/pdf';
+import { ANNOTATION_COLORS, getAnnotationColor } from '@/lib/annotations';
+import { getPageLabel } from '@/lib/pdfNavigation';
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  pageLabels: string[] | null;
+  focusedId: string | null;
+  // Note opened for editing as soon as it is created
+  editingId: string | null;
+  onEditingChange: (id: string | null) => void;
+  onSelect: (annotation: Annotation) => void;
+  onChange: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+}
+
+interface NoteEditorProps {
+  annotation: Annotation;
+  onSave: (note: string) => void;
+  onCancel: () => void;
+}
+
+function NoteEditor({ annotation, onSave, onCancel }: NoteEditorProps) {
+  const [note, setNote] = useState(annotation.note);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        ref={textareaRef}
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            onSave(note);
+          } else if (e.key === 'Escape') {
+            e.stopPropagation();
+            onCancel();
+          }
+        }}
+        rows={3}
+        placeholder="Write a note…"
+        className="w-full px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <div className="flex justify-end gap-1">
+        <button
+          onClick={onCancel}
+          className="px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(note)}
+          className="px-2 py-0.5 text-xs rounded bg-blue-500 text-white hover:bg-blue-600"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function AnnotationsPanel({
+  annotations,
+  pageLabels,
+  focusedId,
+  editingId,
+  onEditingChange,
+  onSelect,
+  onChange,
+  onDelete,
+}: AnnotationsPanelProps) {
+  const handleSaveNote = (annotation: Annotation, note: string) => {
+    onChange({ ...annotation, note: note.trim(), updatedAt: Date.now() });
+    onEditingChange(null);
+  };
+
+  return (
+    <aside
+      className="w-64 shrink-0 max-h-[80vh] overflow-y-auto bg-gray-100 border-r border-gray-200 p-3"
+      aria-label="Annotations"
+    >
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+        Annotations{annotations.length > 0 ? ` (${annotations.length})` : ''}
+      </p>
+      {annotations.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Nothing marked yet. Turn on 🖍 Highlight or 📝 Note in the toolbar and select some text.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {annotations.map((annotation) => (
+            <li
+              key={annotation.id}
+              className={`rounded border bg-white p-2 space-y-1 ${
+                annotation.id === focusedId ? 'border-blue-400' : 'border-gray-200'
+              }`}
+              style={{ borderLeft: `4px solid ${getAnnotationColor(annotation.color).swatch}` }}
+            >
+              <button
+                onClick={() => onSelect(annotation)}
+                className="block w-full text-left text-xs text-gray-700 hover:text-blue-600"
+                title="Go to this annotation"
+              >
+                <span className="text-gray-400">
+                  {annotation.kind === 'note' ? '📝 ' : ''}p. {getPageLabel(annotation.pageNumber, pageLabels)}
+                </span>
+                <span className="block italic line-clamp-3">“{annotation.text}”</span>
+              </button>
+
+              {editingId === annotation.id ? (
+                <NoteEditor
+                  annotation={annotation}
+                  onSave={(note) => handleSaveNote(annotation, note)}
+                  onCancel={() => onEditingChange(null)}
+                />
+              ) : (
+                annotation.note && <p className="text-xs text-gray-800 whitespace-pre-wrap">{annotation.note}</p>
+              )}
+
+              <div className="flex items-center justify-between gap-1">
+                <div className="flex gap-0.5">
+                  {ANNOTATION_COLORS.map((color) => (
+                    <button
+                      key={color.id}
+                      onClick={() => onChange({ ...annotation, color: color.id, updatedAt: Date.now() })}
+                      className={`w-3.5 h-3.5 rounded-full border ${
+                        annotation.color === color.id ? 'border-gray-700' : 'border-transparent'
+                      }`}
+                      style={{ backgroundColor: color.swatch }}
+                      aria-label={`${color.label} colour`}
+                      title={color.label}
+                    />
+                  ))}
+                </div>
+                <div className="flex gap-1">
+                  {editingId !== annotation.id && (
+                    <button
+                      onClick={() => onEditingChange(annotation.id)}
+                      className="px-1.5 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      {annotation.note ? 'Edit note' : 'Add note'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onDelete(annotation)}
+                    className="px-1.5 py-0.5 text-xs rounded border border-red-300 text-red-600 hover:bg-red-50"
+                    aria-label="Delete annotation"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
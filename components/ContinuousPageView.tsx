@@ -0,0 +1,546 @@
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import {
+  prepareCanvas,
+  releaseCanvas,
+  clearTextLayer,
+  renderTextLayerInto,
+  renderWordTextLayerInto,
+  isRenderingCancelled,
+  renderLinkLayerInto,
+  TextLayerResult,
+  LinkHandlers,
+} from '@/lib/pdfPageRenderer';
+import { ZoomSetting, Size, PAGE_PADDING, resolveScale } from '@/lib/zoom';
+import { applyTextHighlights, TextLayerHighlight } from '@/lib/textHighlighter';
+import { renderAnnotationLayerInto, getFormAnnotationMode } from '@/lib/pdfAnnotationLayer';
+import { toTextLayerHighlight } from '@/lib/annotations';
+import { recognizePage, loadOcrResult, describeOcrResult, OcrJob, OcrProgress } from '@/lib/ocr';
+import OcrStatus from '@/components/OcrStatus';
+import { Annotation, OcrPageResult, SearchHit } from '@/types/pdf';
+
+const NO_HIGHLIGHTS: TextLayerHighlight[] = [];
+
+// Pages within this many slots of a visible page are rendered ahead of time
+const RENDER_BUFFER = 2;
+
+type PageSize = Size;
+
+interface ScrollRequest {
+  page: number;
+  // Fraction of the page to scroll past (resuming a reading position)
+  offset?: number;
+  id: number;
+}
+
+interface ContinuousPageViewProps {
+  pdfDoc: any;
+  numPages: number;
+  zoom: ZoomSetting;
+  availableSize: Size | null;
+  scrollRequest: ScrollRequest | null;
+  onCurrentPageChange: (page: number) => void;
+  // Page at the top of the view and how far into it the reader has scrolled
+  onScrollPositionChange: (page: number, offset: number) => void;
+  onTextLayerClick: (event: React.MouseEvent) => void;
+  onTextLayerTouch: (event: React.TouchEvent) => void;
+  searchHits: SearchHit[];
+  activeHitId: string | null;
+  annotations: Annotation[];
+  focusedAnnotationId: string | null;
+  onSelectedHighlight: (el: HTMLElement | null) => void;
+  linkHandlers: LinkHandlers;
+  // The document doesn't allow its form fields to be filled in
+  formsReadOnly: boolean;
+  // Fingerprint and language, for OCR of image-only pages
+  documentKey: string | null;
+  language: string;
+}
+
+interface PageSlotProps {
+  pdfDoc: any;
+  pageNumber: number;
+  active: boolean;
+  scale: number;
+  size: PageSize; // Unscaled (scale=1) page size
+  onSize: (pageNumber: number, size: PageSize) => void;
+  registerSlot: (pageNumber: number, el: HTMLDivElement | null) => void;
+  onTextLayerClick: (event: React.MouseEvent) => void;
+  onTextLayerTouch: (event: React.TouchEvent) => void;
+  highlights: TextLayerHighlight[];
+  onSelectedHighlight: (el: HTMLElement | null) => void;
+  linkHandlers: LinkHandlers;
+  // The document doesn't allow its form fields to be filled in
+  formsReadOnly: boolean;
+  // Fingerprint and language, for OCR of image-only pages
+  documentKey: string | null;
+  language: string;
+}
+
+type SlotStatus = 'placeholder' | 'rendered' | 'no-text' | 'error';
+
+function PageSlot({
+  pdfDoc,
+  pageNumber,
+  active,
+  scale,
+  size,
+  onSize,
+  registerSlot,
+  onTextLayerClick,
+  onTextLayerTouch,
+  highlights,
+  onSelectedHighlight,
+  linkHandlers,
+  formsReadOnly,
+  documentKey,
+  language,
+}: PageSlotProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const linkLayerRef = useRef<HTMLDivElement>(null);
+  const annotationLayerRef = useRef<HTMLDivElement>(null);
+  const textLayerResultRef = useRef<TextLayerResult | null>(null);
+  const pageRef = useRef<any>(null);
+  const renderTaskRef = useRef<any>(null);
+  const [status, setStatus] = useState<SlotStatus>('placeholder');
+  // Set when the page's text layer came from OCR
+  const [ocrResult, setOcrResult] = useState<OcrPageResult | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  // Bumped when OCR finishes so the page renders again with its words
+  const [ocrVersion, setOcrVersion] = useState(0);
+  const ocrJobRef = useRef<OcrJob | null>(null);
+
+  const release = () => {
+    if (renderTaskRef.current) {
+      try {
+        renderTaskRef.current.cancel();
+      } catch (e) {
+        // Ignore cancellation errors
+      }
+      renderTaskRef.current = null;
+    }
+    if (pageRef.current) {
+      try {
+        pageRef.current.cleanup();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+      pageRef.current = null;
+    }
+    releaseCanvas(canvasRef.current);
+    clearTextLayer(textLayerRef.current);
+    clearTextLayer(linkLayerRef.current);
+    clearTextLayer(annotationLayerRef.current);
+    textLayerResultRef.current = null;
+  };
+
+  useEffect(() => {
+    if (!active || !pdfDoc) return;
+
+    let cancelled = false;
+
+    const render = async () => {
+      const canvas = canvasRef.current;
+      const textLayer = textLayerRef.current;
+      if (!canvas || !textLayer) return;
+
+      try {
+        const page = await pdfDoc.getPage(pageNumber);
+        if (cancelled) return;
+        pageRef.current = page;
+
+        const unscaled = page.getViewport({ scale: 1 });
+        onSize(pageNumber, { width: unscaled.width, height: unscaled.height });
+
+        const viewport = page.getViewport({ scale });
+
+        const ctx = prepareCanvas(canvas, viewport);
+        if (!ctx) {
+          console.log(`[ContinuousView] canvas.getContext('2d') returned null for page ${pageNumber}`);
+          setStatus('error');
+          return;
+        }
+
+        const renderTask = page.render({ canvasContext: ctx, viewport, annotationMode: getFormAnnotationMode() });
+        renderTaskRef.current = renderTask;
+        await renderTask.promise;
+        renderTaskRef.current = null;
+        if (cancelled) return;
+
+        let textLayerResult = await renderTextLayerInto(page, viewport, textLayer);
+        if (cancelled) return;
+
+        const ocr = textLayerResult || !documentKey ? null : await loadOcrResult(documentKey, pageNumber);
+        if (cancelled) return;
+        if (ocr) {
+          textLayerResult = renderWordTextLayerInto(ocr.words, viewport, textLayer);
+        }
+        setOcrResult(ocr);
+
+        textLayerResultRef.current = textLayerResult;
+
+        if (linkLayerRef.current) {
+          try {
+            await renderLinkLayerInto(page, viewport, linkLayerRef.current, linkHandlers);
+          } catch (err) {
+            console.error(`[ContinuousView] Link layer failed for page ${pageNumber}:`, err);
+          }
+          if (cancelled) return;
+        }
+
+        if (annotationLayerRef.current) {
+          try {
+            await renderAnnotationLayerInto(
+              page,
+              viewport,
+              annotationLayerRef.current,
+              pdfDoc.annotationStorage,
+              formsReadOnly
+            );
+          } catch (err) {
+            console.error(`[ContinuousView] Annotation layer failed for page ${pageNumber}:`, err);
+          }
+          if (cancelled) return;
+        }
+
+        setStatus(textLayerResult ? 'rendered' : 'no-text');
+        console.log(`[ContinuousView] Page ${pageNumber} rendered`);
+      } catch (err) {
+        if (isRenderingCancelled(err) || cancelled) {
+          return;
+        }
+        console.error(`[ContinuousView] Failed to render page ${pageNumber}:`, err);
+        setStatus('error');
+      }
+    };
+
+    render();
+
+    return () => {
+      cancelled = true;
+      release();
+      setStatus('placeholder');
+      console.log(`[ContinuousView] Page ${pageNumber} released`);
+    };
+  }, [active, pdfDoc, pageNumber, scale, linkHandlers, formsReadOnly, documentKey, ocrVersion]);
+
+  const handleCancelOcr = useCallback(() => {
+    ocrJobRef.current?.cancel();
+    ocrJobRef.current = null;
+    setOcrProgress(null);
+  }, []);
+
+  // Pages scrolled out of range stop their OCR
+  useEffect(() => {
+    if (!active) handleCancelOcr();
+    return handleCancelOcr;
+  }, [active, handleCancelOcr]);
+
+  const handleRecognize = async () => {
+    const page = pageRef.current;
+    if (!page || !documentKey || ocrJobRef.current) return;
+
+    const job = recognizePage(page, documentKey, pageNumber, language, setOcrProgress);
+    ocrJobRef.current = job;
+    setOcrError(null);
+    setOcrProgress({ status: 'starting', progress: 0 });
+
+    try {
+      const result = await job.promise;
+      if (ocrJobRef.current !== job || !result) return;
+      if (result.words.length === 0) {
+        setOcrError('No text was found on this page.');
+      } else {
+        setOcrVersion((v) => v + 1);
+      }
+    } catch (err) {
+      console.error(`[ContinuousView] OCR failed for page ${pageNumber}:`, err);
+      if (ocrJobRef.current === job) {
+        setOcrError(err instanceof Error ? err.message : 'Text recognition failed.');
+      }
+    } finally {
+      if (ocrJobRef.current === job) {
+        ocrJobRef.current = null;
+        setOcrProgress(null);
+      }
+    }
+  };
+
+  // Search and annotation highlights are (re)applied once the text layer exists
+  useEffect(() => {
+    const result = textLayerResultRef.current;
+    if (status !== 'rendered' || !result) return;
+    onSelectedHighlight(applyTextHighlights(result.textDivs, result.itemStrs, highlights));
+  }, [status, highlights, onSelectedHighlight]);
+
+  return (
+    <div
+      ref={(el) => registerSlot(pageNumber, el)}
+      data-page={pageNumber}
+      className="relative mx-auto bg-white shadow-lg rounded-sm"
+      style={{ width: size.width * scale, height: size.height * scale }}
+    >
+      <canvas ref={canvasRef} className="block" />
+      <div
+        ref={textLayerRef}
+        className="textLayer"
+        onClick={onTextLayerClick}
+        onTouchEnd={onTextLayerTouch}
+      />
+      <div ref={linkLayerRef} className="linkLayer" />
+      <div ref={annotationLayerRef} className="annotationLayer" />
+
+      {status === 'placeholder' && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400 pointer-events-none">
+          Page {pageNumber}
+        </div>
+      )}
+
+      {status === 'no-text' && (
+        <div className="absolute top-2 left-2 right-2">
+          <OcrStatus
+            progress={ocrProgress}
+            error={ocrError}
+            onStart={handleRecognize}
+            onCancel={handleCancelOcr}
+            compact
+          />
+        </div>
+      )}
+
+      {status === 'rendered' && ocrResult && (
+        <div
+          className="absolute top-1 right-1 px-1.5 py-0.5 bg-white/80 rounded text-[10px] text-gray-500 pointer-events-none"
+          title={describeOcrResult(ocrResult)}
+        >
+          🔎 OCR{ocrResult.missingLanguage && ' (read as English)'}
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-red-600 pointer-events-none">
+          Failed to render page {pageNumber}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ContinuousPageView({
+  pdfDoc,
+  numPages,
+  zoom,
+  availableSize,
+  scrollRequest,
+  onCurrentPageChange,
+  onScrollPositionChange,
+  onTextLayerClick,
+  onTextLayerTouch,
+  searchHits,
+  activeHitId,
+  annotations,
+  focusedAnnotationId,
+  onSelectedHighlight,
+  linkHandlers,
+  formsReadOnly,
+  documentKey,
+  language,
+}: ContinuousPageViewProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const slotRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const visibleRatios = useRef<Map<number, number>>(new Map());
+  const [defaultSize, setDefaultSize] = useState<PageSize | null>(null);
+  const [pageSizes, setPageSizes] = useState<Record<number, PageSize>>({});
+  const [activePages, setActivePages] = useState<Set<number>>(new Set([1]));
+
+  // Use the first page as the placeholder size until each page reports its own
+  useEffect(() => {
+    if (!pdfDoc) return;
+
+    let cancelled = false;
+    setPageSizes({});
+    visibleRatios.current.clear();
+
+    pdfDoc.getPage(1).then((page: any) => {
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale: 1 });
+      setDefaultSize({ width: viewport.width, height: viewport.height });
+    }).catch((err: unknown) => {
+      console.error('[ContinuousView] Failed to measure first page:', err);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDoc]);
+
+  const highlightsByPage = useMemo(() => {
+    const byPage = new Map<number, TextLayerHighlight[]>();
+    const add = (pageNumber: number, highlight: TextLayerHighlight) => {
+      const list = byPage.get(pageNumber) || [];
+      list.push(highlight);
+      byPage.set(pageNumber, list);
+    };
+    for (const annotation of annotations) {
+      add(annotation.pageNumber, toTextLayerHighlight(annotation, annotation.id === focusedAnnotationId));
+    }
+    for (const hit of searchHits) {
+      add(hit.pageNumber, { ranges: hit.ranges, selected: hit.id === activeHitId });
+    }
+    return byPage;
+  }, [searchHits, activeHitId, annotations, focusedAnnotationId]);
+
+  const handleSize = useCallback((pageNumber: number, size: PageSize) => {
+    setPageSizes((prev) => {
+      const existing = prev[pageNumber];
+      if (existing && existing.width === size.width && existing.height === size.height) {
+        return prev;
+      }
+      return { ...prev, [pageNumber]: size };
+    });
+  }, []);
+
+  const registerSlot = useCallback((pageNumber: number, el: HTMLDivElement | null) => {
+    if (el) {
+      slotRefs.current.set(pageNumber, el);
+    } else {
+      slotRefs.current.delete(pageNumber);
+    }
+  }, []);
+
+  // Track which slots are on screen: render those (plus a buffer) and
+  // report the most visible one as the current page
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || !defaultSize) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.page);
+          if (entry.isIntersecting) {
+            visibleRatios.current.set(pageNumber, entry.intersectionRatio);
+          } else {
+            visibleRatios.current.delete(pageNumber);
+          }
+        }
+
+        const visible = Array.from(visibleRatios.current.keys());
+        if (visible.length === 0) return;
+
+        const nextActive = new Set<number>();
+        for (const pageNumber of visible) {
+          const from = Math.max(1, pageNumber - RENDER_BUFFER);
+          const to = Math.min(numPages, pageNumber + RENDER_BUFFER);
+          for (let p = from; p <= to; p++) {
+            nextActive.add(p);
+          }
+        }
+        setActivePages((prev) => {
+          if (prev.size === nextActive.size && Array.from(nextActive).every((p) => prev.has(p))) {
+            return prev;
+          }
+          return nextActive;
+        });
+
+        let mostVisible = visible[0];
+        for (const pageNumber of visible) {
+          const ratio = visibleRatios.current.get(pageNumber) || 0;
+          const best = visibleRatios.current.get(mostVisible) || 0;
+          if (ratio > best || (ratio === best && pageNumber < mostVisible)) {
+            mostVisible = pageNumber;
+          }
+        }
+        onCurrentPageChange(mostVisible);
+      },
+      { root: scroller, threshold: [0, 0.25, 0.5, 0.75, 1] }
+    );
+
+    slotRefs.current.forEach((el) => observer.observe(el));
+
+    return () => observer.disconnect();
+  }, [defaultSize, numPages, onCurrentPageChange]);
+
+  // Scroll to a page when the parent asks (toolbar buttons, keyboard, mode switch)
+  useEffect(() => {
+    if (!scrollRequest || !defaultSize) return;
+    const scroller = scrollerRef.current;
+    const slot = slotRefs.current.get(scrollRequest.page);
+    if (!scroller || !slot) return;
+
+    scroller.scrollTop = slot.offsetTop - PAGE_PADDING + (scrollRequest.offset || 0) * slot.offsetHeight;
+  }, [scrollRequest, defaultSize]);
+
+  // Report the reading position once scrolling pauses
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller || !defaultSize) return;
+
+    let timeout: NodeJS.Timeout | null = null;
+
+    const report = () => {
+      const top = scroller.scrollTop + PAGE_PADDING;
+      const slots = Array.from(slotRefs.current.entries()).sort((a, b) => a[0] - b[0]);
+      // Last page whose top edge is above the top of the view
+      const current = slots.filter(([, el]) => el.offsetTop <= top).pop() || slots[0];
+      if (!current) return;
+      const [pageNumber, el] = current;
+      const offset = el.offsetHeight > 0 ? (top - el.offsetTop) / el.offsetHeight : 0;
+      onScrollPositionChange(pageNumber, Math.min(1, Math.max(0, offset)));
+    };
+
+    const handleScroll = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(report, 200);
+    };
+
+    scroller.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      scroller.removeEventListener('scroll', handleScroll);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [defaultSize, onScrollPositionChange]);
+
+  if (!defaultSize) {
+    return (
+      <div className="flex items-center justify-center py-16 text-sm text-gray-500">
+        Preparing pages...
+      </div>
+    );
+  }
+
+  const slots = [];
+  for (let pageNumber = 1; pageNumber <= numPages; pageNumber++) {
+    const size = pageSizes[pageNumber] || defaultSize;
+    slots.push(
+      <PageSlot
+        key={pageNumber}
+        pdfDoc={pdfDoc}
+        pageNumber={pageNumber}
+        active={activePages.has(pageNumber)}
+        scale={resolveScale(zoom, size, availableSize)}
+        size={size}
+        onSize={handleSize}
+        registerSlot={registerSlot}
+        onTextLayerClick={onTextLayerClick}
+        onTextLayerTouch={onTextLayerTouch}
+        highlights={highlightsByPage.get(pageNumber) || NO_HIGHLIGHTS}
+        onSelectedHighlight={onSelectedHighlight}
+        linkHandlers={linkHandlers}
+        formsReadOnly={formsReadOnly}
+        documentKey={documentKey}
+        language={language}
+      />
+    );
+  }
+
+  return (
+    <div
+      ref={scrollerRef}
+      className="relative w-full max-h-[80vh] overflow-auto p-4 space-y-4"
+    >
+      {slots}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import { useEffect, useRef } from 'react';
-import { DefinitionData } from '@/types/pdf';
+import { useEffect, useRef, useState } from 'react';
+import { DefinitionData, Meaning, Phonetic } from '@/types/pdf';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { getLanguageName } from '@/lib/languageDetection';
 
 interface DefinitionPopupProps {
   visible: boolean;
@@ -10,6 +13,78 @@ interface DefinitionPopupProps {
   data: DefinitionData | null;
   error: string | null;
   onClose: () => void;
+  // Look up one of the words of a multi-word selection
+  onLookupWord: (word: string) => void;
+  saved: boolean;
+  onSave: () => void;
+}
+
+function playAudio(url: string) {
+  const audio = new Audio(url);
+  audio.play().catch((err) => {
+    console.error('[DefinitionPopup] Audio playback failed:', err);
+  });
+}
+
+function PhoneticList({ phonetics }: { phonetics: Phonetic[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {phonetics.map((p, i) => (
+        <span key={i} className="inline-flex items-center gap-1 text-gray-700 text-sm italic">
+          {p.text}
+          {p.audio && (
+            <button
+              onClick={() => playAudio(p.audio!)}
+              className="not-italic text-blue-600 hover:text-blue-800 text-xs"
+              aria-label={`Play pronunciation${p.text ? ` ${p.text}` : ''}`}
+              title="Play pronunciation"
+            >
+              🔊
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function WordChips({ label, words }: { label: string; words: string[] }) {
+  if (words.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-xs text-gray-500 mr-1">{label}:</span>
+      {words.map((w) => (
+        <Badge key={w} variant="outline" className="font-normal text-gray-700">
+          {w}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function MeaningSenses({ meaning }: { meaning: Meaning }) {
+  return (
+    <div className="space-y-3">
+      <ol className="list-decimal list-outside pl-5 space-y-2">
+        {meaning.senses.map((sense, i) => (
+          <li key={i} className="text-gray-800 text-sm leading-relaxed">
+            {sense.definition}
+            {sense.example && (
+              <p className="text-gray-600 text-sm italic mt-1">"{sense.example}"</p>
+            )}
+            {(sense.synonyms.length > 0 || sense.antonyms.length > 0) && (
+              <div className="mt-1 space-y-1">
+                <WordChips label="Synonyms" words={sense.synonyms} />
+                <WordChips label="Antonyms" words={sense.antonyms} />
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+      <WordChips label="Synonyms" words={meaning.synonyms} />
+      <WordChips label="Antonyms" words={meaning.antonyms} />
+    </div>
+  );
 }
 
 export default function DefinitionPopup({
@@ -21,8 +96,12 @@ export default function DefinitionPopup({
   data,
   error,
   onClose,
+  onLookupWord,
+  saved,
+  onSave,
 }: DefinitionPopupProps) {
   const popupRef = useRef<HTMLDivElement>(null);
+  const [expanded, setExpanded] = useState(false);
 
   useEffect(() => {
     if (!visible) return;
@@ -69,30 +148,72 @@ export default function DefinitionPopup({
 
     popup.style.left = `${adjustedX}px`;
     popup.style.top = `${adjustedY}px`;
-  }, [visible, x, y, data, loading]);
+  }, [visible, x, y, data, loading, expanded]);
 
   if (!visible) return null;
 
+  const meanings = data?.meanings || [];
+  const senseCount = meanings.reduce((total, m) => total + m.senses.length, 0);
+  const phonetics = data?.phonetics || [];
+  const firstAudio = phonetics.find((p) => p.audio)?.audio;
+  const canExpand = senseCount > 1 || meanings.length > 1;
+  const showExpanded = expanded && canExpand;
+
   return (
     <>
       <div className="fixed inset-0 bg-black bg-opacity-20 z-40" />
       <div
         ref={popupRef}
-        className="fixed w-72 bg-white rounded-lg shadow-2xl border border-gray-200 z-50 transition-opacity duration-200"
+        className={`fixed ${showExpanded ? 'w-96' : 'w-72'} max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-2xl border border-gray-200 z-50 transition-opacity duration-200`}
         style={{ left: x, top: y }}
       >
         <div className="bg-gradient-to-r from-blue-500 to-blue-600 text-white px-4 py-3 rounded-t-lg flex justify-between items-center">
-          <span className="font-bold text-lg">{word}</span>
-          <button
-            onClick={onClose}
-            className="text-white hover:bg-blue-700 rounded p-1 transition-colors"
-            aria-label="Close"
-          >
-            ✕
-          </button>
+          <span className="font-bold text-lg">
+            {!loading && data?.inflectedForm ? (
+              <>
+                {data.inflectedForm}
+                <span className="font-normal text-blue-100" aria-label="base form">
+                  {' → '}
+                </span>
+                {data.word}
+              </>
+            ) : !loading && data?.phraseWords ? (
+              data.word
+            ) : (
+              word
+            )}
+          </span>
+          <div className="flex items-center gap-1">
+            {!loading && data && !data.error && (
+              <button
+                onClick={onSave}
+                disabled={saved}
+                className="text-white hover:bg-blue-700 rounded px-2 py-1 text-xs transition-colors disabled:hover:bg-transparent"
+                title={saved ? 'In your vocabulary' : 'Save word to your vocabulary'}
+              >
+                {saved ? '★ Saved' : '☆ Save'}
+              </button>
+            )}
+            {canExpand && !loading && (
+              <button
+                onClick={() => setExpanded((e) => !e)}
+                className="text-white hover:bg-blue-700 rounded px-2 py-1 text-xs transition-colors"
+                aria-pressed={showExpanded}
+              >
+                {showExpanded ? 'Compact' : 'Expand'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-white hover:bg-blue-700 rounded p-1 transition-colors"
+              aria-label="Close"
+            >
+              ✕
+            </button>
+          </div>
         </div>
 
-        <div className="p-4 space-y-3">
+        <div className={`p-4 space-y-3 ${showExpanded ? 'max-h-[60vh] overflow-y-auto' : ''}`}>
           {loading && (
             <div className="flex items-center justify-center py-4">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
@@ -103,11 +224,32 @@ export default function DefinitionPopup({
             <div className="text-gray-700 text-sm">{error}</div>
           )}
 
-          {!loading && data && !data.error && (
+          {!loading && data?.phraseWords && data.phraseWords.length > 1 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 mr-1">Words:</span>
+              {data.phraseWords.map((w, i) => (
+                <button
+                  key={`${w}-${i}`}
+                  onClick={() => onLookupWord(w)}
+                  disabled={w.length < 2}
+                  className={`px-2 py-0.5 rounded-full border text-xs transition-colors disabled:opacity-50 ${
+                    w === data.word
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                  title={`Look up "${w}"`}
+                >
+                  {w}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {!loading && data && !data.error && !showExpanded && (
             <>
               <div>
                 <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
-                  Definition
+                  Definition{meanings[0] ? ` · ${meanings[0].partOfSpeech}` : ''}
                 </p>
                 <p className="text-gray-800 text-sm leading-relaxed">
                   {data.definition}
@@ -119,7 +261,19 @@ export default function DefinitionPopup({
                   <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
                     Pronunciation
                   </p>
-                  <p className="text-gray-700 text-sm italic">{data.phonetic}</p>
+                  <p className="text-gray-700 text-sm italic">
+                    {data.phonetic}
+                    {firstAudio && (
+                      <button
+                        onClick={() => playAudio(firstAudio)}
+                        className="not-italic ml-2 text-blue-600 hover:text-blue-800 text-xs"
+                        aria-label="Play pronunciation"
+                        title="Play pronunciation"
+                      >
+                        🔊
+                      </button>
+                    )}
+                  </p>
                 </div>
               )}
 
@@ -131,6 +285,38 @@ export default function DefinitionPopup({
                   <p className="text-gray-700 text-sm italic">"{data.example}"</p>
                 </div>
               )}
+
+              {canExpand && (
+                <button
+                  onClick={() => setExpanded(true)}
+                  className="text-xs text-blue-600 hover:text-blue-800 underline"
+                >
+                  Show all {senseCount} senses
+                  {meanings.length > 1 ? ` (${meanings.map((m) => m.partOfSpeech).join(', ')})` : ''}
+                </button>
+              )}
+            </>
+          )}
+
+          {!loading && data && !data.error && showExpanded && (
+            <>
+              {phonetics.length > 0 && <PhoneticList phonetics={phonetics} />}
+
+              <Tabs defaultValue={meanings[0].partOfSpeech}>
+                <TabsList className="gap-2 border-b border-gray-200 overflow-x-auto">
+                  {meanings.map((m) => (
+                    <TabsTrigger key={m.partOfSpeech} value={m.partOfSpeech} className="capitalize">
+                      {m.partOfSpeech}
+                      <span className="ml-1 text-xs text-gray-400">{m.senses.length}</span>
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {meanings.map((m) => (
+                  <TabsContent key={m.partOfSpeech} value={m.partOfSpeech} className="pt-2">
+                    <MeaningSenses meaning={m} />
+                  </TabsContent>
+                ))}
+              </Tabs>
             </>
           )}
 
@@ -140,7 +326,22 @@ export default function DefinitionPopup({
         </div>
 
         <div className="bg-gray-50 px-4 py-3 rounded-b-lg text-xs text-gray-600 border-t border-gray-200">
-          Data from Dictionary API • Click outside to close
+          {showExpanded && data?.sourceUrls && data.sourceUrls.length > 0 && (
+            <div className="mb-1 truncate">
+              Source:{' '}
+              {data.sourceUrls.map((url, i) => (
+                <span key={url}>
+                  {i > 0 && ', '}
+                  <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                    {url.replace(/^https?:\/\//, '')}
+                  </a>
+                </span>
+              ))}
+            </div>
+          )}
+          {data?.source ? `Data from ${data.source} • ` : ''}
+          {data?.language ? `${getLanguageName(data.language)} • ` : ''}
+          Click outside to close
         </div>
       </div>
     </>
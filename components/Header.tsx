@@ -1,4 +1,19 @@
-export default function Header() {
+interface HeaderProps {
+  // Review cards due today
+  dueCount: number;
+  onOpenSettings: () => void;
+  onOpenVocabulary: () => void;
+  onOpenReview: () => void;
+  onOpenHistory: () => void;
+}
+
+export default function Header({
+  dueCount,
+  onOpenSettings,
+  onOpenVocabulary,
+  onOpenReview,
+  onOpenHistory,
+}: HeaderProps) {
   return (
     <header className="bg-white shadow-sm border-b border-gray-200">
       <div className="mx-auto w-full max-w-7xl px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
@@ -8,6 +23,38 @@ export default function Header() {
           </div>
           <h1 className="text-xl font-bold text-gray-900">Smart PDF Reader</h1>
         </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onOpenReview}
+            className="px-3 py-1.5 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            🧠 Review
+            {dueCount > 0 && (
+              <span className="ml-1.5 px-1.5 rounded-full bg-blue-500 text-white text-xs" aria-label={`${dueCount} due`}>
+                {dueCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={onOpenVocabulary}
+            className="px-3 py-1.5 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            📒 Vocabulary
+          </button>
+          <button
+            onClick={onOpenHistory}
+            className="px-3 py-1.5 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            🕘 History
+          </button>
+          <button
+            onClick={onOpenSettings}
+            className="px-3 py-1.5 text-sm rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            aria-label="Settings"
+          >
+            ⚙ Settings
+          </button>
+        </div>
       </div>
     </header>
   );
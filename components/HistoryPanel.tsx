@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { LookupHistoryEntry } from '@/types/pdf';
+import {
+  listHistory,
+  filterHistory,
+  listHistoryDocuments,
+  importHistoryEntries,
+  clearHistory,
+} from '@/lib/lookupHistory';
+import {
+  ExportFormat,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportHistory,
+  parseJsonBackup,
+  downloadTextFile,
+  loadExportColumns,
+  saveExportColumns,
+} from '@/lib/historyExport';
+
+interface HistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const PREVIEW_LIMIT = 200;
+
+// <input type="date"> value ("2024-05-01") → local start/end of that day
+function parseDateInput(value: string, endOfDay: boolean): number | null {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+export default function HistoryPanel({ open, onOpenChange }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<LookupHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [documentKey, setDocumentKey] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<string[]>(() => loadExportColumns());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listHistory());
+      setError(null);
+    } catch (err) {
+      console.error('[HistoryPanel] Failed to load history:', err);
+      setError('Lookup history could not be loaded (IndexedDB unavailable).');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setMessage(null);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  const documents = useMemo(() => listHistoryDocuments(entries), [entries]);
+
+  const filtered = useMemo(
+    () =>
+      filterHistory(entries, {
+        documentKey: documentKey || null,
+        from: parseDateInput(fromDate, false),
+        to: parseDateInput(toDate, true),
+      }),
+    [entries, documentKey, fromDate, toDate]
+  );
+
+  const usesColumns = format === 'csv' || format === 'tsv';
+
+  const toggleColumn = (id: string, checked: boolean) => {
+    // Keep the canonical column order whatever order they were ticked in
+    const next = EXPORT_COLUMNS.map((c) => c.id).filter((c) => (c === id ? checked : columns.includes(c)));
+    setColumns(next);
+    saveExportColumns(next);
+  };
+
+  const handleExport = () => {
+    const info = EXPORT_FORMATS.find((f) => f.id === format)!;
+    const content = exportHistory(filtered, format, columns);
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`lookup-history-${stamp}.${info.extension}`, content, info.mime);
+    console.log(`[HistoryPanel] Exported ${filtered.length} entries as ${format}`);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseJsonBackup(await file.text());
+      const count = await importHistoryEntries(imported);
+      setMessage(`Imported ${count} entr${count === 1 ? 'y' : 'ies'} from ${file.name}.`);
+      await refresh();
+    } catch (err) {
+      console.error('[HistoryPanel] Import failed:', err);
+      setMessage(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete the whole lookup history? Export a JSON backup first if you want to keep it.')) return;
+    try {
+      await clearHistory();
+      setMessage('Lookup history cleared.');
+      await refresh();
+    } catch (err) {
+      console.error('[HistoryPanel] Failed to clear history:', err);
+      setMessage('Could not clear the history.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Lookup history</DialogTitle>
+          <DialogDescription>Every word you looked up, ready to export to other tools.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3 text-xs text-gray-600">
+          <label className="flex flex-col gap-1">
+            Document
+            <select
+              value={documentKey}
+              onChange={(e) => setDocumentKey(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-sm max-w-[16rem]"
+            >
+              <option value="">All documents</option>
+              {documents.map((d) => (
+                <option key={d.key} value={d.key}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            From
+            <input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            To
+            <input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          {loading
+            ? 'Loading…'
+            : error
+              ? <span className="text-red-600">{error}</span>
+              : `${filtered.length} of ${entries.length} lookups`}
+        </p>
+
+        <ul className="max-h-56 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded text-sm">
+          {!loading && filtered.length === 0 && (
+            <li className="p-3 text-gray-500 text-xs">No lookups match these filters.</li>
+          )}
+          {filtered.slice(0, PREVIEW_LIMIT).map((entry) => (
+            <li key={entry.id} className="px-3 py-1.5 flex items-baseline gap-2">
+              <span className="font-medium text-gray-900 shrink-0">{entry.word}</span>
+              <span className="text-gray-600 truncate flex-1">{entry.data.definition}</span>
+              <span className="text-xs text-gray-400 shrink-0">
+                {entry.documentName ? `${entry.documentName}${entry.pageNumber > 0 ? ` · p. ${entry.pageNumber}` : ''} · ` : ''}
+                {new Date(entry.lookedUpAt).toLocaleDateString()}
+              </span>
+            </li>
+          ))}
+          {filtered.length > PREVIEW_LIMIT && (
+            <li className="px-3 py-1.5 text-xs text-gray-500">…and {filtered.length - PREVIEW_LIMIT} more</li>
+          )}
+        </ul>
+
+        <section className="space-y-2">
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Export</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-sm"
+              aria-label="Export format"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={filtered.length === 0 || (usesColumns && columns.length === 0)}
+              className="px-3 py-1 text-sm rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+            >
+              Export {filtered.length}
+            </button>
+          </div>
+          {usesColumns && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-700">
+              {EXPORT_COLUMNS.map((column) => (
+                <label key={column.id} className="inline-flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.id)}
+                    onChange={(e) => toggleColumn(column.id, e.target.checked)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="flex flex-wrap items-center gap-2 border-t border-gray-200 pt-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Import JSON backup…
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="px-3 py-1 text-xs rounded border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-40"
+          >
+            Clear history
+          </button>
+          {message && <span className="text-xs text-gray-600">{message}</span>}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,54 @@
+import { OcrProgress } from '@/lib/ocr';
+
+interface OcrStatusProps {
+  // Set while a page is being recognized
+  progress: OcrProgress | null;
+  error: string | null;
+  onStart: () => void;
+  onCancel: () => void;
+  // Smaller layout for the page slots of the continuous view
+  compact?: boolean;
+}
+
+/**
+ * Notice for a page without text: offers OCR, then shows its progress with
+ * a cancel button.
+ */
+export default function OcrStatus({ progress, error, onStart, onCancel, compact = false }: OcrStatusProps) {
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={`bg-yellow-50 border border-yellow-200 rounded-lg text-center ${compact ? 'p-2' : 'p-3'}`}>
+      {progress ? (
+        <div className="flex flex-col items-center gap-2">
+          <p className={`text-yellow-800 ${textSize}`}>
+            Recognizing text… {progress.status} ({Math.round(progress.progress * 100)}%)
+          </p>
+          <div className="w-full max-w-xs h-1.5 bg-yellow-100 rounded overflow-hidden">
+            <div className="h-full bg-yellow-500 transition-all" style={{ width: `${progress.progress * 100}%` }} />
+          </div>
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 bg-white border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center gap-2">
+          <p className={`text-yellow-800 ${textSize}`}>
+            ⚠️ Interactive text unavailable for this page. PDF may be scanned or image-based.
+          </p>
+          <button
+            onClick={onStart}
+            className="px-2 py-1 bg-white border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+            title="Read the text from the page image so words can be looked up"
+          >
+            🔎 Recognize text (OCR)
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { OutlineNode } from '@/lib/pdfNavigation';
+
+interface OutlinePanelProps {
+  outline: OutlineNode[];
+  onSelect: (node: OutlineNode) => void;
+}
+
+interface OutlineItemProps {
+  node: OutlineNode;
+  depth: number;
+  onSelect: (node: OutlineNode) => void;
+}
+
+function OutlineItem({ node, depth, onSelect }: OutlineItemProps) {
+  // Top-level entries start expanded, deeper ones collapsed
+  const [expanded, setExpanded] = useState(depth === 0);
+  const hasChildren = node.items.length > 0;
+
+  return (
+    <li>
+      <div className="flex items-start gap-1" style={{ paddingLeft: depth * 12 }}>
+        {hasChildren ? (
+          <button
+            onClick={() => setExpanded((e) => !e)}
+            className="w-4 shrink-0 text-gray-500 hover:text-gray-800 text-xs leading-5"
+            aria-label={expanded ? 'Collapse' : 'Expand'}
+            aria-expanded={expanded}
+          >
+            {expanded ? '▾' : '▸'}
+          </button>
+        ) : (
+          <span className="w-4 shrink-0" />
+        )}
+        <button
+          onClick={() => onSelect(node)}
+          className={`text-left text-xs leading-5 text-gray-700 hover:text-blue-600 hover:underline ${
+            node.bold ? 'font-semibold' : ''
+          } ${node.italic ? 'italic' : ''}`}
+          title={node.url || node.title}
+        >
+          {node.title}
+          {node.url && <span className="ml-1 text-gray-400">↗</span>}
+        </button>
+      </div>
+      {hasChildren && expanded && (
+        <ul>
+          {node.items.map((child) => (
+            <OutlineItem key={child.id} node={child} depth={depth + 1} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function OutlinePanel({ outline, onSelect }: OutlinePanelProps) {
+  return (
+    <aside
+      className="w-56 shrink-0 max-h-[80vh] overflow-y-auto bg-gray-100 border-r border-gray-200 p-3"
+      aria-label="Document outline"
+    >
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Outline</p>
+      {outline.length === 0 ? (
+        <p className="text-xs text-gray-500">This document has no outline.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {outline.map((node) => (
+            <OutlineItem key={node.id} node={node} depth={0} onSelect={onSelect} />
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
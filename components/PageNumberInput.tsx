@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { getPageLabel, resolvePageInput } from '@/lib/pdfNavigation';
+
+interface PageNumberInputProps {
+  currentPage: number;
+  numPages: number;
+  pageLabels: string[] | null;
+  disabled: boolean;
+  onNavigate: (page: number) => void;
+}
+
+export default function PageNumberInput({
+  currentPage,
+  numPages,
+  pageLabels,
+  disabled,
+  onNavigate,
+}: PageNumberInputProps) {
+  const label = getPageLabel(currentPage, pageLabels);
+  const [draft, setDraft] = useState(label);
+  const [editing, setEditing] = useState(false);
+  const [invalid, setInvalid] = useState(false);
+  const cancelledRef = useRef(false);
+
+  // Follow the viewer's page unless the user is typing
+  useEffect(() => {
+    if (!editing) {
+      setDraft(label);
+    }
+  }, [label, editing]);
+
+  const commit = () => {
+    const page = resolvePageInput(draft, numPages, pageLabels);
+    if (page === null) {
+      console.log('[PageNumberInput] No page matches:', draft);
+      setInvalid(true);
+      setDraft(label);
+      return;
+    }
+    setInvalid(false);
+    if (page !== currentPage) {
+      onNavigate(page);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Blurring commits the value
+      e.preventDefault();
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancelledRef.current = true;
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1 text-sm font-medium text-gray-700">
+      Page
+      <input
+        type="text"
+        inputMode={pageLabels ? 'text' : 'numeric'}
+        value={draft}
+        disabled={disabled}
+        onChange={(e) => {
+          setDraft(e.target.value);
+          setInvalid(false);
+        }}
+        onFocus={(e) => {
+          setEditing(true);
+          e.currentTarget.select();
+        }}
+        onBlur={() => {
+          setEditing(false);
+          if (cancelledRef.current) {
+            cancelledRef.current = false;
+            setInvalid(false);
+            setDraft(label);
+            return;
+          }
+          commit();
+        }}
+        onKeyDown={handleKeyDown}
+        className={`w-14 px-1 py-0.5 text-center border rounded bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          invalid ? 'border-red-400' : 'border-gray-300'
+        }`}
+        aria-label="Go to page"
+        aria-invalid={invalid}
+        title={pageLabels ? 'Enter a page label (e.g. iv) or a page number' : 'Enter a page number'}
+      />
+      {pageLabels ? `(${currentPage} of ${numPages})` : `of ${numPages}`}
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { PasswordReason } from '@/lib/pdfLoaderCdn';
+
+interface PasswordDialogProps {
+  // Set while PDF.js is waiting for a password
+  reason: PasswordReason | null;
+  fileName: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+export default function PasswordDialog({ reason, fileName, onSubmit, onCancel }: PasswordDialogProps) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(password);
+    // A wrong password reopens the prompt empty
+    setPassword('');
+  };
+
+  return (
+    <Dialog open={reason !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Password required</DialogTitle>
+          <DialogDescription>
+            <span className="font-medium">{fileName}</span> is protected. Enter its password to open it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoFocus
+            autoComplete="off"
+            placeholder="Password"
+            aria-label="Document password"
+            aria-invalid={reason === 'incorrect'}
+            className={`w-full px-3 py-2 border rounded text-sm ${
+              reason === 'incorrect' ? 'border-red-400' : 'border-gray-300'
+            }`}
+          />
+          {reason === 'incorrect' && (
+            <p className="text-xs text-red-600">That password is not correct. Try again.</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 bg-blue-500 hover:bg-blue-600 rounded text-sm text-white"
+            >
+              Open
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
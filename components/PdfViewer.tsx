@@ -1,34 +1,220 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { loadPdfDocument } from '@/lib/pdfLoaderCdn';
-import { normalizeWord } from '@/lib/dictionaryApi';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import {
+  loadPdfDocument,
+  getDocumentFingerprint,
+  getLoadErrorKind,
+  getPdfJsSource,
+  LoadErrorKind,
+  PasswordReason,
+  PdfLoadJob,
+} from '@/lib/pdfLoaderCdn';
+import { recognizePage, loadOcrResult, describeOcrResult, OcrJob, OcrProgress } from '@/lib/ocr';
+import { loadDocumentPermissions, ALL_PERMISSIONS, DocumentPermissions } from '@/lib/pdfPermissions';
+import { normalizeWord, normalizePhrase, splitWords } from '@/lib/dictionaryApi';
+import {
+  renderTextLayerInto,
+  releaseCanvas,
+  isRenderingCancelled,
+  renderLinkLayerInto,
+  clearTextLayer,
+  getTextLayerResult,
+  renderWordTextLayerInto,
+  TextLayerResult,
+  LinkHandlers,
+} from '@/lib/pdfPageRenderer';
+import {
+  loadOutline,
+  loadPageLabels,
+  getPageLabel,
+  resolveDestination,
+  openExternalLink,
+  OutlineNode,
+} from '@/lib/pdfNavigation';
+import { applyTextHighlights, TextLayerHighlight } from '@/lib/textHighlighter';
+import {
+  renderAnnotationLayerInto,
+  getFormAnnotationMode,
+  hasFormFields,
+  saveFilledPdf,
+} from '@/lib/pdfAnnotationLayer';
+import { downloadBlob } from '@/lib/utils';
+import { loadReadingPosition, saveReadingPosition } from '@/lib/readingPosition';
+import { Annotation, AnnotationKind, SearchHit, WordContext } from '@/types/pdf';
+import { buildWordContext } from '@/lib/wordContext';
+import {
+  ANNOTATION_COLORS,
+  DEFAULT_ANNOTATION_COLOR,
+  createAnnotation,
+  listAnnotations,
+  saveAnnotation,
+  deleteAnnotation,
+  sortAnnotations,
+  rangesFromSelection,
+  toTextLayerHighlight,
+} from '@/lib/annotations';
+import {
+  ZoomSetting,
+  Size,
+  ZOOM_PRESETS,
+  DEFAULT_ZOOM,
+  MIN_SCALE,
+  MAX_SCALE,
+  resolveScale,
+  clampScale,
+  zoomIn,
+  zoomOut,
+  measureAvailableSize,
+  loadZoomSetting,
+  saveZoomSetting,
+} from '@/lib/zoom';
+import {
+  LANGUAGES,
+  DEFAULT_LANGUAGE,
+  DocumentLanguage,
+  getLanguageName,
+  resolveDocumentLanguage,
+  pickDocumentLanguage,
+  loadLanguageOverride,
+  saveLanguageOverride,
+} from '@/lib/languageDetection';
+import ContinuousPageView from '@/components/ContinuousPageView';
+import ReaderView from '@/components/ReaderView';
+import SearchPanel from '@/components/SearchPanel';
+import ThumbnailSidebar from '@/components/ThumbnailSidebar';
+import OutlinePanel from '@/components/OutlinePanel';
+import AnnotationsPanel from '@/components/AnnotationsPanel';
+import PageNumberInput from '@/components/PageNumberInput';
+import PasswordDialog from '@/components/PasswordDialog';
+import OcrStatus from '@/components/OcrStatus';
+
+// Reader mode shows the text reflowed as HTML instead of the rendered pages
+type ViewMode = 'single' | 'continuous' | 'reader';
+
+// How long a background tab keeps its rendered pages before releasing them
+const SUSPEND_DELAY_MS = 30000;
+
+/**
+ * What to look up for a click/tap: a phrase when the user dragged across
+ * several words, otherwise the first word.
+ */
+function lookupTextFor(text: string, dragged: boolean): string | null {
+  if (dragged) {
+    const phrase = normalizePhrase(text);
+    if (phrase.length > 1) {
+      return phrase.join(' ');
+    }
+  }
+  return normalizeWord(splitWords(text)[0] || '');
+}
+type SidebarPanel = 'thumbnails' | 'outline' | 'annotations';
 
 interface PdfViewerProps {
   file: File | null;
-  onWordClick: (word: string, x: number, y: number) => void;
+  // False while the viewer's tab is in the background; inactive viewers
+  // ignore global keys and scrolling and release their canvases after a while
+  active: boolean;
+  onWordClick: (word: string, x: number, y: number, context: WordContext | null) => void;
   onClosePopup: () => void;
+  // Language words of the open document are looked up in
+  onLanguageChange: (language: string) => void;
+  // Called once a document is open, with its fingerprint
+  onDocumentLoad: (key: string, numPages: number) => void;
 }
 
-export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewerProps) {
+export default function PdfViewer({
+  file,
+  active,
+  onWordClick,
+  onClosePopup,
+  onLanguageChange,
+  onDocumentLoad,
+}: PdfViewerProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textLayerRef = useRef<HTMLDivElement>(null);
+  const linkLayerRef = useRef<HTMLDivElement>(null);
+  const annotationLayerRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<LoadErrorKind | null>(null);
+  // Bumped to load the same file again (e.g. to retry a password)
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [passwordReason, setPasswordReason] = useState<PasswordReason | null>(null);
+  const [permissions, setPermissions] = useState<DocumentPermissions>(ALL_PERMISSIONS);
   const [rendered, setRendered] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [numPages, setNumPages] = useState(0);
   const [renderingPage, setRenderingPage] = useState(false);
   const [hasTextLayer, setHasTextLayer] = useState(true);
   const [noTextForPage, setNoTextForPage] = useState(false);
+  // The page's text layer was built from OCR
+  // Set when the page's text layer came from OCR
+  const [ocrNotice, setOcrNotice] = useState<string | null>(null);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrError, setOcrError] = useState<string | null>(null);
   const [showDebug, setShowDebug] = useState(true);
+  const [viewMode, setViewMode] = useState<ViewMode>('single');
+  const [scrollRequest, setScrollRequest] = useState<{ page: number; offset?: number; id: number } | null>(null);
+  const [zoom, setZoom] = useState<ZoomSetting>(DEFAULT_ZOOM);
+  const [docKey, setDocKey] = useState<string | null>(null);
+  const [basePageSize, setBasePageSize] = useState<Size | null>(null);
+  const [availableSize, setAvailableSize] = useState<Size | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [sidebarPanel, setSidebarPanel] = useState<SidebarPanel | null>(null);
+  const [outline, setOutline] = useState<OutlineNode[]>([]);
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null);
+  const [documentLanguage, setDocumentLanguage] = useState<DocumentLanguage | null>(null);
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [activeHitIndex, setActiveHitIndex] = useState(-1);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  // Selecting text creates this kind of annotation instead of a lookup
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null);
+  const [annotationColor, setAnnotationColor] = useState(DEFAULT_ANNOTATION_COLOR);
+  const [focusedAnnotationId, setFocusedAnnotationId] = useState<string | null>(null);
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
+  const [hasForm, setHasForm] = useState(false);
+  const [savingPdf, setSavingPdf] = useState(false);
+  // Background tab whose canvases have been released
+  const [suspended, setSuspended] = useState(false);
 
   // Refs for cleanup and render tracking
   const pdfDocRef = useRef<any>(null);
+  // Untouched copy of the file; PDF.js takes ownership of the buffer it loads
+  const pdfBytesRef = useRef<ArrayBuffer | null>(null);
   const pdfPageRef = useRef<any>(null);
   const renderTaskRef = useRef<any>(null);
   const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const renderTokenRef = useRef<number>(0);
   const needsRerender = useRef<boolean>(false);
+  const viewModeRef = useRef<ViewMode>(viewMode);
+  viewModeRef.current = viewMode;
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+  const zoomRef = useRef<ZoomSetting>(zoom);
+  zoomRef.current = zoom;
+  const wheelZoomRef = useRef<{ factor: number; timeout: NodeJS.Timeout | null }>({ factor: 1, timeout: null });
+  const pinchRef = useRef<{ startDistance: number; distance: number } | null>(null);
+  const textLayerResultRef = useRef<TextLayerResult | null>(null);
+  const searchStateRef = useRef({ hits: searchHits, activeIndex: activeHitIndex });
+  searchStateRef.current = { hits: searchHits, activeIndex: activeHitIndex };
+  const annotationStateRef = useRef({ annotations, focusedId: focusedAnnotationId });
+  annotationStateRef.current = { annotations, focusedId: focusedAnnotationId };
+  // Search hit or annotation to scroll into view once its highlight is on screen
+  const pendingHitScrollRef = useRef<string | null>(null);
+  const docKeyRef = useRef<string | null>(docKey);
+  docKeyRef.current = docKey;
+  // Reading position waiting to be written (debounced while scrolling)
+  const pendingPositionRef = useRef<{ key: string; page: number; offset: number } | null>(null);
+  // Last position reported by any view mode, carried over when switching modes
+  const viewPositionRef = useRef({ page: 1, offset: 0 });
+  const positionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Offset into the first page to scroll to once a resumed document is on screen
+  const pendingResumeOffsetRef = useRef<number | null>(null);
+  // Answers PDF.js's pending password request (null gives up)
+  const passwordResolverRef = useRef<((password: string | null) => void) | null>(null);
+  const permissionsRef = useRef(permissions);
+  permissionsRef.current = permissions;
+  const ocrJobRef = useRef<OcrJob | null>(null);
 
   // Cleanup function
   const cleanup = () => {
@@ -60,6 +246,7 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       }
       pdfDocRef.current = null;
     }
+    pdfBytesRef.current = null;
   };
 
   useEffect(() => {
@@ -71,12 +258,41 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       setNumPages(0);
       setHasTextLayer(false);
       setNoTextForPage(false);
+      setOcrNotice(null);
+      setDocKey(null);
+      setBasePageSize(null);
+      setSearchHits([]);
+      setActiveHitIndex(-1);
+      setOutline([]);
+      setPageLabels(null);
+      setDocumentLanguage(null);
+      setAnnotations([]);
+      setHasForm(false);
+      setPermissions(ALL_PERMISSIONS);
       return;
     }
 
+    // Each run has its own loading task and password prompt, so a run that
+    // is replaced (new file, retry, StrictMode) can't take over the next one
+    let cancelled = false;
+    let loadJob: PdfLoadJob | null = null;
+    let answerPassword: ((password: string | null) => void) | null = null;
+
+    const requestPassword = (reason: PasswordReason) =>
+      new Promise<string | null>((resolve) => {
+        if (cancelled) {
+          resolve(null);
+          return;
+        }
+        answerPassword = resolve;
+        passwordResolverRef.current = resolve;
+        setPasswordReason(reason);
+      });
+
     const loadPdf = async () => {
       setLoading(true);
       setError(null);
+      setErrorKind(null);
       setRendered(false);
       cleanupDoc();
 
@@ -93,83 +309,247 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
           reader.onerror = () => reject(new Error('Failed to read file'));
           reader.readAsArrayBuffer(file);
         });
+        if (cancelled) return;
 
         // Load PDF document from CDN-loaded PDF.js
-        const pdfDoc = await loadPdfDocument(arrayBuffer);
+        const originalBytes = arrayBuffer.slice(0);
+        loadJob = loadPdfDocument(arrayBuffer, requestPassword);
+        const pdfDoc = await loadJob.promise;
+        if (cancelled) return;
+        setPasswordReason(null);
         pdfDocRef.current = pdfDoc;
+        pdfBytesRef.current = originalBytes;
         setNumPages(pdfDoc.numPages);
-        setCurrentPage(1);
 
-        // Render first page
-        await renderPage(1);
+        const documentPermissions = await loadDocumentPermissions(pdfDoc);
+        if (cancelled) return;
+        permissionsRef.current = documentPermissions;
+        setPermissions(documentPermissions);
+        if (!documentPermissions.copy) {
+          setAnnotationTool(null);
+        }
+
+        // Restore the zoom and position from last time this document was open
+        const key = getDocumentFingerprint(pdfDoc) || `${file.name}:${file.size}`;
+        const savedZoom = loadZoomSetting(key) || DEFAULT_ZOOM;
+        zoomRef.current = savedZoom;
+        setZoom(savedZoom);
+        docKeyRef.current = key;
+        setDocKey(key);
+        onDocumentLoad(key, pdfDoc.numPages);
+
+        const position = loadReadingPosition(key);
+        const startPage = position && position.page <= pdfDoc.numPages ? position.page : 1;
+        const startOffset = position && startPage === position.page ? position.offset : 0;
+        setCurrentPage(startPage);
+        if (position) {
+          console.log('[PdfViewer] Resuming at page', startPage, 'offset', startOffset.toFixed(2));
+        }
+
+        setOutline([]);
+        loadOutline(pdfDoc).then((items) => {
+          if (pdfDocRef.current === pdfDoc) setOutline(items);
+        });
+        setHasForm(false);
+        hasFormFields(pdfDoc).then((found) => {
+          if (pdfDocRef.current === pdfDoc) setHasForm(found);
+        });
+        const labels = await loadPageLabels(pdfDoc);
+        if (cancelled) return;
+        setPageLabels(labels);
+
+        setDocumentLanguage(null);
+        resolveDocumentLanguage(pdfDoc, loadLanguageOverride(key)).then((language) => {
+          if (pdfDocRef.current === pdfDoc) setDocumentLanguage(language);
+        });
+
+        const firstPage = await pdfDoc.getPage(1);
+        if (cancelled) return;
+        const firstViewport = firstPage.getViewport({ scale: 1 });
+        setBasePageSize({ width: firstViewport.width, height: firstViewport.height });
+        setAvailableSize(measureAvailableSize(containerRef.current));
+
+        // Render the start page (continuous mode renders its own visible pages)
+        if (viewModeRef.current === 'single') {
+          pendingResumeOffsetRef.current = startOffset > 0 ? startOffset : null;
+          await renderPage(startPage);
+        } else {
+          setScrollRequest({ page: startPage, offset: startOffset, id: Date.now() });
+          setRendered(true);
+        }
 
       } catch (err) {
+        if (cancelled) return;
         console.error('PDF loading error:', err);
-        if (err instanceof Error && err.message.includes('PDF.js library failed')) {
-          setError(
-            'PDF.js library failed to load from CDN. Please check your internet connection and reload the page.'
-          );
+        setPasswordReason(null);
+        const kind = getLoadErrorKind(err);
+        setErrorKind(kind);
+        if (kind === 'password') {
+          setError(`${file.name} is password protected and can't be shown without its password.`);
+        } else if (kind === 'corrupt') {
+          setError(`${file.name} is damaged or is not a PDF file.`);
         } else {
           setError(err instanceof Error ? err.message : 'Failed to load PDF');
         }
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadPdf();
 
     return () => {
+      cancelled = true;
+      // Give up on this run's password prompt, if it is still open
+      if (answerPassword) {
+        if (passwordResolverRef.current === answerPassword) {
+          passwordResolverRef.current = null;
+          setPasswordReason(null);
+        }
+        answerPassword(null);
+        answerPassword = null;
+      }
+      loadJob?.cancel();
       cleanupDoc();
       if (resizeTimeoutRef.current) {
         clearTimeout(resizeTimeoutRef.current);
       }
     };
-  }, [file]);
+  }, [file, loadAttempt]);
+
+  const handlePasswordSubmit = useCallback((password: string) => {
+    passwordResolverRef.current?.(password);
+    passwordResolverRef.current = null;
+  }, []);
+
+  const handlePasswordCancel = useCallback(() => {
+    passwordResolverRef.current?.(null);
+    passwordResolverRef.current = null;
+    setPasswordReason(null);
+  }, []);
+
+  useEffect(() => {
+    onLanguageChange(documentLanguage?.code || DEFAULT_LANGUAGE);
+  }, [documentLanguage, onLanguageChange]);
+
+  const flushReadingPosition = useCallback(() => {
+    if (positionTimeoutRef.current) {
+      clearTimeout(positionTimeoutRef.current);
+      positionTimeoutRef.current = null;
+    }
+    const pending = pendingPositionRef.current;
+    if (!pending) return;
+    pendingPositionRef.current = null;
+    saveReadingPosition(pending.key, { page: pending.page, offset: pending.offset, updatedAt: Date.now() });
+  }, []);
+
+  // Remember where the reader is; the key is captured now so a later
+  // document switch can't file the position under the wrong document
+  const rememberPosition = useCallback((page: number, offset: number) => {
+    viewPositionRef.current = { page, offset };
+    const key = docKeyRef.current;
+    if (!key) return;
+    pendingPositionRef.current = { key, page, offset };
+    if (positionTimeoutRef.current) {
+      clearTimeout(positionTimeoutRef.current);
+    }
+    positionTimeoutRef.current = setTimeout(flushReadingPosition, 500);
+  }, [flushReadingPosition]);
+
+  // Write the last position out before the page goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flushReadingPosition);
+    return () => {
+      window.removeEventListener('pagehide', flushReadingPosition);
+      flushReadingPosition();
+    };
+  }, [flushReadingPosition]);
+
+  // Empty value goes back to automatic detection
+  const handleLanguageSelect = (value: string) => {
+    const override = value || null;
+    if (docKey) {
+      saveLanguageOverride(docKey, override);
+    }
+    setDocumentLanguage((prev) =>
+      pickDocumentLanguage(override, prev?.detected ?? null, prev?.metadata ?? null)
+    );
+  };
+
+  // Highlights and notes saved for this document
+  useEffect(() => {
+    setAnnotations([]);
+    setFocusedAnnotationId(null);
+    setEditingAnnotationId(null);
+    if (!docKey) return;
+
+    let cancelled = false;
+    listAnnotations(docKey)
+      .then((items) => {
+        if (!cancelled) setAnnotations(items);
+      })
+      .catch((err) => console.warn('[PdfViewer] Failed to load annotations:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [docKey]);
+
+  const highlightsForPage = (pageNum: number): TextLayerHighlight[] => {
+    const { hits, activeIndex } = searchStateRef.current;
+    const { annotations: saved, focusedId } = annotationStateRef.current;
+    const activeId = hits[activeIndex]?.id;
+    return [
+      ...saved
+        .filter((annotation) => annotation.pageNumber === pageNum)
+        .map((annotation) => toTextLayerHighlight(annotation, annotation.id === focusedId)),
+      ...hits
+        .filter((hit) => hit.pageNumber === pageNum)
+        .map((hit) => ({ ranges: hit.ranges, selected: hit.id === activeId })),
+    ];
+  };
+
+  // Scroll the selected search hit into view the first time it is drawn
+  const handleSelectedHighlight = useCallback((el: HTMLElement | null) => {
+    if (!el || !pendingHitScrollRef.current) return;
+    pendingHitScrollRef.current = null;
+    el.scrollIntoView({ block: 'center', inline: 'nearest' });
+  }, []);
+
+  const applyPageHighlights = (pageNum: number) => {
+    const result = textLayerResultRef.current;
+    if (!result) return;
+    const selectedEl = applyTextHighlights(result.textDivs, result.itemStrs, highlightsForPage(pageNum));
+    handleSelectedHighlight(selectedEl);
+  };
 
   const renderTextLayer = async (page: any, viewport: any) => {
     const textLayer = textLayerRef.current;
+    textLayerResultRef.current = null;
     if (!textLayer) return;
 
-    // Hard reset: remove all children
-    while (textLayer.firstChild) {
-      textLayer.removeChild(textLayer.firstChild);
-    }
-
     try {
-      // Fetch text content
-      const textContent = await page.getTextContent();
+      // Render text layer using PDF.js built-in renderer
+      let result = await renderTextLayerInto(page, viewport, textLayer);
 
-      console.log('[PdfViewer] Text content items:', textContent.items.length);
+      // Image-only pages use their OCR text once it has been recognized
+      const ocr = result || !docKeyRef.current ? null : await loadOcrResult(docKeyRef.current, page.pageNumber);
+      if (ocr) {
+        result = renderWordTextLayerInto(ocr.words, viewport, textLayer);
+      }
+      setOcrNotice(ocr ? describeOcrResult(ocr) : null);
 
-      // Check if page has extractable text
-      if (!textContent.items || textContent.items.length === 0) {
-        console.warn('[PdfViewer] No text content items found - page may be scanned');
+      if (!result) {
+        console.warn('[PdfViewer] No text layer rendered - page may be scanned');
         setNoTextForPage(true);
         setHasTextLayer(false);
         return;
       }
 
-      // Text exists
+      const childCount = textLayer.children.length;
+      console.log('[PdfViewer] Text layer rendered with', childCount, 'children', ocr ? '(OCR)' : '');
+      textLayerResultRef.current = result;
       setNoTextForPage(false);
-
-      // Render text layer using PDF.js built-in renderer
-      if (window.pdfjsLib && window.pdfjsLib.renderTextLayer) {
-        await window.pdfjsLib.renderTextLayer({
-          textContentSource: textContent,
-          container: textLayer,
-          viewport: viewport,
-          textDivs: [],
-        }).promise;
-
-        const childCount = textLayer.children.length;
-        console.log('[PdfViewer] Text layer rendered with', childCount, 'children');
-        setHasTextLayer(true);
-      } else {
-        console.warn('[PdfViewer] renderTextLayer API not available');
-        setNoTextForPage(true);
-        setHasTextLayer(false);
-      }
+      setHasTextLayer(true);
     } catch (err) {
       console.error('[PdfViewer] Text layer rendering error:', err);
       setNoTextForPage(true);
@@ -177,6 +557,38 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
     }
   };
 
+  const renderLinkLayer = async (page: any, viewport: any) => {
+    const linkLayer = linkLayerRef.current;
+    if (!linkLayer) return;
+
+    try {
+      const count = await renderLinkLayerInto(page, viewport, linkLayer, linkHandlers);
+      console.log('[PdfViewer] Link layer rendered with', count, 'links');
+    } catch (err) {
+      console.error('[PdfViewer] Link layer rendering error:', err);
+      clearTextLayer(linkLayer);
+    }
+  };
+
+  const renderAnnotationLayer = async (page: any, viewport: any) => {
+    const annotationLayer = annotationLayerRef.current;
+    if (!annotationLayer) return;
+
+    try {
+      const result = await renderAnnotationLayerInto(
+        page,
+        viewport,
+        annotationLayer,
+        pdfDocRef.current?.annotationStorage,
+        !permissionsRef.current.fillForms
+      );
+      console.log('[PdfViewer] Annotation layer rendered:', result);
+    } catch (err) {
+      console.error('[PdfViewer] Annotation layer rendering error:', err);
+      clearTextLayer(annotationLayer);
+    }
+  };
+
   const renderPage = async (pageNum: number): Promise<boolean> => {
     const canvas = canvasRef.current;
     const textLayer = textLayerRef.current;
@@ -213,6 +625,8 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
         textLayer.removeChild(textLayer.firstChild);
       }
     }
+    clearTextLayer(linkLayerRef.current);
+    clearTextLayer(annotationLayerRef.current);
 
     try {
       const page = await pdfDoc.getPage(pageNum);
@@ -225,13 +639,21 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
 
       pdfPageRef.current = page;
 
-      // 2) Compute viewport with scale=1 (CSS pixels)
+      // 2) Compute viewport at the current zoom (CSS pixels); fit modes
+      // resolve against this page's own size and the container
       const dpr = window.devicePixelRatio || 1;
-      const viewport = page.getViewport({ scale: 1 });
+      const unscaled = page.getViewport({ scale: 1 });
+      const scale = resolveScale(
+        zoomRef.current,
+        { width: unscaled.width, height: unscaled.height },
+        measureAvailableSize(containerRef.current)
+      );
+      const viewport = page.getViewport({ scale });
 
       console.log('[PdfViewer] Viewport:', {
         width: viewport.width,
         height: viewport.height,
+        scale,
         dpr: dpr
       });
 
@@ -251,9 +673,11 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       // 5) Scale context and render
       ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
+      // Form widgets are left to the annotation layer's HTML controls
       const renderContext = {
         canvasContext: ctx,
         viewport: viewport,
+        annotationMode: getFormAnnotationMode(),
       };
 
       const renderTask = page.render(renderContext);
@@ -273,12 +697,20 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       // 6) Render text layer with SAME viewport
       await renderTextLayer(page, viewport);
 
+      // 7) Link annotations on top of the text layer
+      await renderLinkLayer(page, viewport);
+
+      // 8) Comments and form fields on top of everything
+      await renderAnnotationLayer(page, viewport);
+
       // Check if stale after text layer
       if (localToken !== renderTokenRef.current) {
         console.log(`[PdfViewer] Render cancelled after text layer (stale token: ${localToken})`);
         return false;
       }
 
+      applyPageHighlights(pageNum);
+
       setRendered(true);
       console.log(`[PdfViewer] Page ${pageNum} render complete (token: ${localToken})`);
       return true;
@@ -286,7 +718,7 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       console.error('[PdfViewer] Page rendering error:', String(err), (err && (err as any).stack) || null);
 
       // Ignore cancellation exceptions
-      if (err && typeof err === 'object' && 'name' in err && (err as any).name === 'RenderingCancelledException') {
+      if (isRenderingCancelled(err)) {
         console.log(`[PdfViewer] Render task cancelled (token: ${localToken})`);
         return false;
       }
@@ -329,6 +761,13 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
 
     onClosePopup();
 
+    // Continuous and reader modes: every page is already laid out, just scroll to it
+    if (viewMode !== 'single') {
+      setScrollRequest({ page: newPage, id: Date.now() });
+      setCurrentPage(newPage);
+      return;
+    }
+
     // Render new page and update currentPage only on success
     const success = await renderPage(newPage);
 
@@ -338,7 +777,7 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
     } else {
       console.log(`[PdfViewer] Failed to navigate to page ${newPage}`, { error, pdfDoc: !!pdfDocRef.current, renderingPage, currentPage, numPages, rendered });
     }
-  }, [numPages, currentPage, renderingPage, onClosePopup]);
+  }, [numPages, currentPage, renderingPage, viewMode, onClosePopup]);
 
   const handleNextPage = useCallback(() => {
     if (!renderingPage && currentPage < numPages) {
@@ -354,35 +793,434 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
     }
   }, [currentPage, renderingPage, handlePageChange]);
 
+  const goToHit = useCallback((index: number) => {
+    const hit = searchHits[index];
+    if (!hit) return;
+
+    console.log('[PdfViewer] Going to search hit', index + 1, 'on page', hit.pageNumber);
+    setActiveHitIndex(index);
+    setFocusedAnnotationId(null);
+    pendingHitScrollRef.current = hit.id;
+    if (hit.pageNumber !== currentPage) {
+      handlePageChange(hit.pageNumber);
+    }
+  }, [searchHits, currentPage, handlePageChange]);
+
+  const handleNextHit = useCallback(() => {
+    if (searchHits.length === 0) return;
+    goToHit((activeHitIndex + 1) % searchHits.length);
+  }, [searchHits, activeHitIndex, goToHit]);
+
+  const handlePrevHit = useCallback(() => {
+    if (searchHits.length === 0) return;
+    goToHit((activeHitIndex - 1 + searchHits.length) % searchHits.length);
+  }, [searchHits, activeHitIndex, goToHit]);
+
+  const handleSearchResults = useCallback((hits: SearchHit[]) => {
+    setSearchHits(hits);
+    setActiveHitIndex(-1);
+  }, []);
+
+  const handleCloseSearch = useCallback(() => {
+    setSearchOpen(false);
+    setSearchHits([]);
+    setActiveHitIndex(-1);
+  }, []);
+
+  // Re-apply highlights on the single page when results, the active hit or annotations change
+  useEffect(() => {
+    if (viewMode === 'single' && rendered) {
+      applyPageHighlights(currentPage);
+    }
+  }, [searchHits, activeHitIndex, annotations, focusedAnnotationId]);
+
+  const handleSelectAnnotation = useCallback((annotation: Annotation) => {
+    console.log('[PdfViewer] Going to annotation on page', annotation.pageNumber);
+    setFocusedAnnotationId(annotation.id);
+    setActiveHitIndex(-1);
+    pendingHitScrollRef.current = annotation.id;
+    if (annotation.pageNumber !== currentPage) {
+      handlePageChange(annotation.pageNumber);
+    }
+  }, [currentPage, handlePageChange]);
+
+  const handleChangeAnnotation = useCallback((annotation: Annotation) => {
+    setAnnotations((prev) => prev.map((a) => (a.id === annotation.id ? annotation : a)));
+    saveAnnotation(annotation).catch((err) => {
+      console.error('[PdfViewer] Failed to save annotation:', err);
+      window.alert('Could not save the annotation.');
+    });
+  }, []);
+
+  const handleDeleteAnnotation = useCallback((annotation: Annotation) => {
+    if (annotation.note && !window.confirm('Delete this annotation and its note?')) return;
+    setAnnotations((prev) => prev.filter((a) => a.id !== annotation.id));
+    deleteAnnotation(annotation.id).catch((err) => {
+      console.error('[PdfViewer] Failed to delete annotation:', err);
+    });
+  }, []);
+
+  // Links and the outline navigate through the latest handlePageChange;
+  // the handlers object itself stays stable for the page renderers
+  const navigateRef = useRef(handlePageChange);
+  navigateRef.current = handlePageChange;
+  const pageBoundsRef = useRef({ currentPage, numPages });
+  pageBoundsRef.current = { currentPage, numPages };
+
+  const navigateToDestination = useCallback(async (dest: any) => {
+    const pdfDoc = pdfDocRef.current;
+    if (!pdfDoc) return;
+    const pageNumber = await resolveDestination(pdfDoc, dest);
+    if (pageNumber) {
+      console.log('[PdfViewer] Following link to page', pageNumber);
+      navigateRef.current(pageNumber);
+    }
+  }, []);
+
+  const linkHandlers = useMemo<LinkHandlers>(() => ({
+    onInternalLink: navigateToDestination,
+    onExternalLink: openExternalLink,
+    onNamedAction: (action: string) => {
+      const { currentPage: page, numPages: total } = pageBoundsRef.current;
+      const targets: Record<string, number> = {
+        NextPage: page + 1,
+        PrevPage: page - 1,
+        FirstPage: 1,
+        LastPage: total,
+      };
+      if (action in targets) {
+        navigateRef.current(targets[action]);
+      } else {
+        console.log('[PdfViewer] Unsupported named action:', action);
+      }
+    },
+  }), [navigateToDestination]);
+
+  const handleOutlineSelect = useCallback((node: OutlineNode) => {
+    if (node.dest) {
+      navigateToDestination(node.dest);
+    } else if (node.url) {
+      openExternalLink(node.url);
+    }
+  }, [navigateToDestination]);
+
+  // OCR for the current page in single page mode; the page is rendered again
+  // once its words are recognized, which picks up the cached result
+  const handleRecognizePage = useCallback(async () => {
+    const page = pdfPageRef.current;
+    if (!page || !docKey || ocrJobRef.current) return;
+
+    const pageNumber = page.pageNumber;
+    const job = recognizePage(page, docKey, pageNumber, documentLanguage?.code || DEFAULT_LANGUAGE, setOcrProgress);
+    ocrJobRef.current = job;
+    setOcrError(null);
+    setOcrProgress({ status: 'starting', progress: 0 });
+
+    try {
+      const result = await job.promise;
+      if (ocrJobRef.current !== job || !result) return;
+      if (result.words.length === 0) {
+        setOcrError('No text was found on this page.');
+      } else if (pageNumber === currentPageRef.current && viewModeRef.current === 'single') {
+        renderPage(pageNumber);
+      }
+    } catch (err) {
+      console.error('[PdfViewer] OCR failed:', err);
+      if (ocrJobRef.current === job) {
+        setOcrError(err instanceof Error ? err.message : 'Text recognition failed.');
+      }
+    } finally {
+      if (ocrJobRef.current === job) {
+        ocrJobRef.current = null;
+        setOcrProgress(null);
+      }
+    }
+  }, [docKey, documentLanguage]);
+
+  const handleCancelOcr = useCallback(() => {
+    ocrJobRef.current?.cancel();
+    ocrJobRef.current = null;
+    setOcrProgress(null);
+  }, []);
+
+  // A running OCR job belongs to the page it was started on
+  useEffect(() => {
+    setOcrError(null);
+    return handleCancelOcr;
+  }, [currentPage, file, viewMode, handleCancelOcr]);
+
+  // Continuous mode reports the most visible page as the user scrolls
+  const handleVisiblePageChange = useCallback((page: number) => {
+    setCurrentPage(page);
+  }, []);
+
+  // Switching modes keeps the reader on the same page, and at the same
+  // place on it as far as the modes can tell
+  useEffect(() => {
+    // Reader mode has no text layer to annotate
+    if (viewMode === 'reader') {
+      setAnnotationTool(null);
+    }
+    if (!pdfDocRef.current) return;
+
+    const position = viewPositionRef.current;
+    const offset = position.page === currentPage ? position.offset : 0;
+    if (viewMode === 'single') {
+      renderPage(currentPage).then((success) => {
+        if (success && offset > 0) {
+          scrollCanvasTo(offset);
+        }
+      });
+    } else {
+      cleanup();
+      releaseCanvas(canvasRef.current);
+      setScrollRequest({ page: currentPage, offset, id: Date.now() });
+    }
+  }, [viewMode]);
+
+  // Background tabs drop their canvases and page caches; the document itself
+  // stays open so coming back only re-renders what is on screen
+  useEffect(() => {
+    if (active) {
+      if (!suspended) return;
+      console.log('[PdfViewer] Resuming at page', currentPage);
+      setSuspended(false);
+      if (viewMode === 'continuous') {
+        setScrollRequest({ page: currentPage, id: Date.now() });
+      } else if (viewMode === 'single') {
+        renderPage(currentPage);
+      }
+      return;
+    }
+
+    if (!rendered || suspended) return;
+    const timeout = setTimeout(() => {
+      console.log('[PdfViewer] Suspending background document');
+      flushReadingPosition();
+      cleanup();
+      releaseCanvas(canvasRef.current);
+      clearTextLayer(textLayerRef.current);
+      clearTextLayer(linkLayerRef.current);
+      clearTextLayer(annotationLayerRef.current);
+      textLayerResultRef.current = null;
+      pdfDocRef.current?.cleanup().catch((err: unknown) =>
+        console.warn('[PdfViewer] Document cleanup failed:', err)
+      );
+      setSuspended(true);
+    }, SUSPEND_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [active, rendered]);
+
+  // Scale currently on screen (fit modes resolve against the first page)
+  const displayScale = basePageSize
+    ? resolveScale(zoom, basePageSize, availableSize)
+    : clampScale(zoom.scale);
+
+  const handleZoomIn = useCallback(() => {
+    setZoom({ mode: 'custom', scale: zoomIn(displayScale) });
+  }, [displayScale]);
+
+  const handleZoomOut = useCallback(() => {
+    setZoom({ mode: 'custom', scale: zoomOut(displayScale) });
+  }, [displayScale]);
+
+  const handleZoomSelect = (value: string) => {
+    if (value === 'fit-width' || value === 'fit-page') {
+      setZoom({ mode: value, scale: displayScale });
+    } else {
+      setZoom({ mode: 'custom', scale: clampScale(parseFloat(value)) });
+    }
+  };
+
+  // Re-render the single page whenever the zoom changes; in continuous
+  // mode the pages resize themselves, so just keep the current page in view
+  useEffect(() => {
+    // Reader mode has its own text size; the pages pick the zoom up on return
+    if (!rendered || !pdfDocRef.current || viewMode === 'reader') return;
+
+    onClosePopup();
+    if (viewMode === 'continuous') {
+      setScrollRequest({ page: currentPage, id: Date.now() });
+    } else if (renderingPage) {
+      console.log('[PdfViewer] Render in progress, queuing rerender for zoom');
+      needsRerender.current = true;
+    } else {
+      renderPage(currentPage);
+    }
+  }, [zoom]);
+
+  // Opening or closing the sidebar changes the room left for the page
+  useEffect(() => {
+    if (!rendered) return;
+
+    setAvailableSize(measureAvailableSize(containerRef.current));
+    if (viewMode === 'single' && zoom.mode !== 'custom') {
+      if (renderingPage) {
+        needsRerender.current = true;
+      } else {
+        renderPage(currentPage);
+      }
+    }
+  }, [sidebarPanel]);
+
+  // Remember the zoom per document
+  useEffect(() => {
+    if (docKey) {
+      saveZoomSetting(docKey, zoom);
+    }
+  }, [zoom, docKey]);
+
+  // Ctrl+wheel (and trackpad pinch, which browsers report as ctrl+wheel)
+  // and two-finger touch pinch. Both accumulate a factor and commit it once
+  // the gesture settles so every intermediate step doesn't trigger a render.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !rendered) return;
+
+    const commitFactor = (factor: number) => {
+      setZoom((prev) => {
+        const base = basePageSize ? resolveScale(prev, basePageSize, availableSize) : prev.scale;
+        return { mode: 'custom', scale: clampScale(base * factor) };
+      });
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+
+      const state = wheelZoomRef.current;
+      state.factor *= Math.exp(-e.deltaY * 0.002);
+      if (state.timeout) {
+        clearTimeout(state.timeout);
+      }
+      state.timeout = setTimeout(() => {
+        commitFactor(state.factor);
+        state.factor = 1;
+        state.timeout = null;
+      }, 120);
+    };
+
+    const touchDistance = (touches: TouchList) => {
+      const dx = touches[0].clientX - touches[1].clientX;
+      const dy = touches[0].clientY - touches[1].clientY;
+      return Math.hypot(dx, dy);
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      if (e.touches.length === 2) {
+        const distance = touchDistance(e.touches);
+        pinchRef.current = { startDistance: distance, distance };
+      }
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!pinchRef.current || e.touches.length !== 2) return;
+      e.preventDefault();
+      pinchRef.current.distance = touchDistance(e.touches);
+    };
+
+    const handleTouchEnd = () => {
+      const pinch = pinchRef.current;
+      if (!pinch) return;
+      pinchRef.current = null;
+
+      const factor = pinch.distance / pinch.startDistance;
+      if (pinch.startDistance > 0 && Math.abs(factor - 1) > 0.05) {
+        commitFactor(factor);
+      }
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart, { passive: true });
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+      if (wheelZoomRef.current.timeout) {
+        clearTimeout(wheelZoomRef.current.timeout);
+        wheelZoomRef.current = { factor: 1, timeout: null };
+      }
+    };
+  }, [rendered, basePageSize, availableSize]);
+
   // Keyboard navigation
   useEffect(() => {
-    if (!rendered || numPages === 0) return;
+    if (!rendered || numPages === 0 || !active) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Ctrl/Cmd+F opens search; F3 / Ctrl+G step through the hits
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setSearchOpen(true);
+        return;
+      }
+      if (e.key === 'F3' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'g')) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          handlePrevHit();
+        } else {
+          handleNextHit();
+        }
+        return;
+      }
+
+      // Ctrl/Cmd +, - and 0 zoom the document instead of the browser page
+      if (e.ctrlKey || e.metaKey) {
+        if (e.key === '+' || e.key === '=') {
+          e.preventDefault();
+          handleZoomIn();
+        } else if (e.key === '-') {
+          e.preventDefault();
+          handleZoomOut();
+        } else if (e.key === '0') {
+          e.preventDefault();
+          setZoom(DEFAULT_ZOOM);
+        }
+        return;
+      }
+
+      // Navigation keys belong to text fields (search box, page field) while typing
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+
       // Ignore keyboard nav while rendering
       if (renderingPage) {
         console.log('[PdfViewer] Keyboard navigation ignored - rendering in progress');
         return;
       }
 
-      if (e.key === 'ArrowLeft' && currentPage > 1) {
+      if ((e.key === 'ArrowLeft' || e.key === 'PageUp') && currentPage > 1) {
         e.preventDefault();
-        console.log('[PdfViewer] Left arrow pressed');
+        console.log(`[PdfViewer] ${e.key} pressed`);
         handlePrevPage();
-      } else if (e.key === 'ArrowRight' && currentPage < numPages) {
+      } else if ((e.key === 'ArrowRight' || e.key === 'PageDown') && currentPage < numPages) {
         e.preventDefault();
-        console.log('[PdfViewer] Right arrow pressed');
+        console.log(`[PdfViewer] ${e.key} pressed`);
         handleNextPage();
+      } else if (e.key === 'Home' && currentPage > 1) {
+        e.preventDefault();
+        console.log('[PdfViewer] Home pressed');
+        handlePageChange(1);
+      } else if (e.key === 'End' && currentPage < numPages) {
+        e.preventDefault();
+        console.log('[PdfViewer] End pressed');
+        handlePageChange(numPages);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [rendered, numPages, currentPage, renderingPage, handlePrevPage, handleNextPage]);
+  }, [rendered, numPages, active, currentPage, renderingPage, handlePrevPage, handleNextPage, handlePageChange, handleZoomIn, handleZoomOut, handlePrevHit, handleNextHit]);
 
-  // Debounced resize handler
+  // Debounced resize handler (also recomputes fit-width / fit-page)
   useEffect(() => {
-    if (!rendered) return;
+    if (!rendered || !active) return;
 
     const handleResize = () => {
       if (resizeTimeoutRef.current) {
@@ -390,6 +1228,11 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       }
 
       resizeTimeoutRef.current = setTimeout(() => {
+        setAvailableSize(measureAvailableSize(containerRef.current));
+
+        // Continuous mode re-renders its pages from the new available size
+        if (viewMode !== 'single') return;
+
         console.log('[PdfViewer] Resize detected, re-rendering current page');
 
         // If currently rendering, queue a rerender
@@ -410,11 +1253,140 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
         clearTimeout(resizeTimeoutRef.current);
       }
     };
-  }, [rendered, currentPage, renderingPage]);
+  }, [rendered, active, currentPage, renderingPage, viewMode]);
+
+  // Single page mode: the page is the position, the window scroll the offset into it
+  useEffect(() => {
+    if (viewMode === 'single' && rendered) {
+      rememberPosition(currentPage, 0);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    if (!rendered || !active || viewMode !== 'single') return;
+
+    const handleScroll = () => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      if (!rect || rect.height <= 0) return;
+      rememberPosition(currentPage, Math.min(1, Math.max(0, -rect.top / rect.height)));
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, [rendered, active, viewMode, currentPage, rememberPosition]);
+
+  // Scroll the window so `offset` (a fraction of the single page) is at the top
+  const scrollCanvasTo = (offset: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (rect) {
+      window.scrollTo({ top: window.scrollY + rect.top + offset * rect.height });
+    }
+  };
+
+  // Scroll a resumed single page back to where the reader was
+  useEffect(() => {
+    const offset = pendingResumeOffsetRef.current;
+    if (!rendered || offset === null || viewMode !== 'single') return;
+    pendingResumeOffsetRef.current = null;
+
+    scrollCanvasTo(offset);
+  }, [rendered]);
+
+  // The original file with whatever was typed into its form fields
+  const handleDownloadFilledPdf = useCallback(async () => {
+    const pdfDoc = pdfDocRef.current;
+    const originalBytes = pdfBytesRef.current;
+    if (!pdfDoc || !originalBytes || !file) return;
+
+    setSavingPdf(true);
+    try {
+      const blob = await saveFilledPdf(pdfDoc, originalBytes);
+      const name = `${file.name.replace(/\.pdf$/i, '')}-filled.pdf`;
+      downloadBlob(name, blob);
+      console.log('[PdfViewer] Saved filled PDF:', name, blob.size, 'bytes');
+    } catch (err) {
+      console.error('[PdfViewer] Failed to save filled PDF:', err);
+      window.alert('Could not save the filled PDF.');
+    } finally {
+      setSavingPdf(false);
+    }
+  }, [file]);
+
+  // Page an element of the view belongs to: its page section in the
+  // continuous and reader views, the current page in single-page view
+  const pageOfElement = useCallback(
+    (el: Element | null | undefined): number => {
+      const slot = el?.closest<HTMLElement>('[data-page]');
+      return viewMode !== 'single' && slot ? Number(slot.dataset.page) : currentPage;
+    },
+    [viewMode, currentPage]
+  );
+
+  // Report a clicked word together with its page and sentence
+  const reportWord = useCallback(
+    async (word: string, x: number, y: number, target: EventTarget | null) => {
+      const pdfDoc = pdfDocRef.current;
+      let context: WordContext | null = null;
+
+      if (pdfDoc && file) {
+        const targetEl = target instanceof HTMLElement ? target : null;
+        const pageNumber = pageOfElement(targetEl);
+        const documentKey = docKey || `${file.name}:${file.size}`;
+        context = await buildWordContext(
+          pdfDoc,
+          file.name,
+          documentKey,
+          pageNumber,
+          word,
+          targetEl?.textContent || undefined
+        );
+        if (pdfDocRef.current !== pdfDoc) return;
+      }
+
+      onWordClick(word, x, y, context);
+    },
+    [file, docKey, pageOfElement, onWordClick]
+  );
+
+  // Turn the current text selection into a highlight or note
+  const annotateSelection = useCallback((selection: Selection, target: EventTarget | null): boolean => {
+    if (!annotationTool || !docKey) return false;
+
+    const targetEl = target instanceof HTMLElement ? target : null;
+    const layer = targetEl?.closest<HTMLElement>('.textLayer');
+    const result = layer ? getTextLayerResult(layer) : null;
+    if (!layer || !result) return false;
+
+    const ranges = rangesFromSelection(selection.getRangeAt(0), result.textDivs);
+    if (ranges.length === 0) return false;
+
+    const pageNumber = pageOfElement(layer);
+    const annotation = createAnnotation(docKey, pageNumber, annotationTool, annotationColor, ranges, selection.toString());
+
+    console.log('[PdfViewer] Created', annotationTool, 'on page', pageNumber);
+    setAnnotations((prev) => sortAnnotations([...prev, annotation]));
+    saveAnnotation(annotation).catch((err) => {
+      console.error('[PdfViewer] Failed to save annotation:', err);
+      window.alert('Could not save the annotation.');
+    });
+
+    // Notes open in the sidebar so the text can be typed right away
+    if (annotationTool === 'note') {
+      setSidebarPanel('annotations');
+      setEditingAnnotationId(annotation.id);
+    }
+    return true;
+  }, [annotationTool, annotationColor, docKey, pageOfElement]);
+
+  // Documents that forbid extracting text keep it out of the clipboard
+  const handleBlockedCopy = useCallback((event: React.ClipboardEvent) => {
+    event.preventDefault();
+    console.log('[PdfViewer] Copy blocked by document permissions');
+  }, []);
 
   // Text layer click/touch handlers
   const handleTextLayerClick = useCallback((event: React.MouseEvent) => {
-    if (renderingPage || !hasTextLayer) {
+    if (viewMode === 'single' && (renderingPage || !hasTextLayer)) {
       console.log('[PdfViewer] Click ignored:', { renderingPage, hasTextLayer });
       return;
     }
@@ -428,6 +1400,13 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       }
 
       let selectedText = selection.toString().trim();
+      const dragged = selectedText.length > 0;
+
+      // With an annotation tool on, a dragged selection marks the text instead
+      if (dragged && annotateSelection(selection, event.target)) {
+        selection.removeAllRanges();
+        return;
+      }
 
       // If no selection, try target element
       if (!selectedText && event.target instanceof HTMLElement) {
@@ -439,26 +1418,23 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
         return;
       }
 
-      // Extract first word from selection
-      const words = selectedText.split(/[\s\p{P}]+/u).filter(w => w.length > 0);
-      const firstWord = words[0] || '';
-
-      const normalized = normalizeWord(firstWord);
+      // Phrase for a multi-word selection, otherwise the first word
+      const normalized = lookupTextFor(selectedText, dragged);
 
       if (normalized) {
         console.log('[PdfViewer] Valid word selected:', normalized);
-        onWordClick(normalized, event.pageX, event.pageY);
+        reportWord(normalized, event.pageX, event.pageY, event.target);
 
         // Clear selection after 100ms
         setTimeout(() => selection.removeAllRanges(), 100);
       } else {
-        console.log('[PdfViewer] Invalid word ignored:', firstWord);
+        console.log('[PdfViewer] Invalid word ignored:', selectedText);
       }
     }, 10);
-  }, [renderingPage, hasTextLayer, onWordClick]);
+  }, [viewMode, renderingPage, hasTextLayer, reportWord, annotateSelection]);
 
   const handleTextLayerTouch = useCallback((event: React.TouchEvent) => {
-    if (renderingPage || !hasTextLayer) {
+    if (viewMode === 'single' && (renderingPage || !hasTextLayer)) {
       console.log('[PdfViewer] Touch ignored:', { renderingPage, hasTextLayer });
       return;
     }
@@ -471,6 +1447,12 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       }
 
       let selectedText = selection.toString().trim();
+      const dragged = selectedText.length > 0;
+
+      if (dragged && annotateSelection(selection, event.target)) {
+        selection.removeAllRanges();
+        return;
+      }
 
       if (!selectedText && event.target instanceof HTMLElement) {
         selectedText = event.target.textContent?.trim() || '';
@@ -481,96 +1463,376 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
         return;
       }
 
-      const words = selectedText.split(/[\s\p{P}]+/u).filter(w => w.length > 0);
-      const firstWord = words[0] || '';
-
-      const normalized = normalizeWord(firstWord);
+      const normalized = lookupTextFor(selectedText, dragged);
 
       if (normalized) {
         console.log('[PdfViewer] Valid word from touch:', normalized);
         const touch = event.changedTouches[0] || event.touches[0];
         if (touch) {
-          onWordClick(normalized, touch.pageX, touch.pageY);
+          reportWord(normalized, touch.pageX, touch.pageY, event.target);
         }
         setTimeout(() => selection.removeAllRanges(), 100);
       } else {
-        console.log('[PdfViewer] Invalid word from touch:', firstWord);
+        console.log('[PdfViewer] Invalid word from touch:', selectedText);
       }
     }, 10);
-  }, [renderingPage, hasTextLayer, onWordClick]);
+  }, [viewMode, renderingPage, hasTextLayer, reportWord, annotateSelection]);
+
+  const pdfJsSource = getPdfJsSource();
 
   return (
     <>
     <section className="bg-white rounded-lg shadow-md overflow-hidden">
-      <div className="bg-gray-100 px-4 sm:px-6 py-3 border-b border-gray-200">
+      <div className="bg-gray-100 px-4 sm:px-6 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
         <p className="text-sm font-medium text-gray-700">
           {rendered && numPages > 0
-            ? `PDF Preview - Page ${currentPage} of ${numPages}`
+            ? pageLabels
+              ? `PDF Preview - Page ${getPageLabel(currentPage, pageLabels)} (${currentPage} of ${numPages})`
+              : `PDF Preview - Page ${currentPage} of ${numPages}`
             : 'PDF Preview'}
         </p>
-      </div>
-
-      <div
-        ref={containerRef}
-        className="relative bg-gray-50 flex items-center justify-center min-h-96 overflow-auto"
-      >
-        {(loading || renderingPage) && (
-          <div className="absolute inset-0 flex items-center justify-center bg-gray-50 bg-opacity-90 z-10">
-            <div className="flex flex-col items-center gap-3">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500" />
-              <p className="text-sm text-gray-600">
-                {renderingPage ? `Rendering page ${currentPage}...` : 'Loading PDF...'}
-              </p>
-            </div>
-          </div>
-        )}
-
-        {error && (
-          <div className="absolute inset-0 flex items-center justify-center p-4">
-            <div className="bg-red-50 border border-red-200 rounded-lg p-4 max-w-md">
-              <p className="text-red-800 text-sm font-medium mb-2">Error Loading PDF</p>
-              <p className="text-red-700 text-sm">{error}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          {rendered && numPages > 0 && (
+            <PageNumberInput
+              currentPage={currentPage}
+              numPages={numPages}
+              pageLabels={pageLabels}
+              disabled={renderingPage}
+              onNavigate={handlePageChange}
+            />
+          )}
+          <button
+            onClick={() => setSidebarPanel((panel) => (panel === 'thumbnails' ? null : 'thumbnails'))}
+            disabled={!rendered}
+            className={`px-2 py-1 border rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              sidebarPanel === 'thumbnails' ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            title="Page thumbnails"
+            aria-pressed={sidebarPanel === 'thumbnails'}
+          >
+            ▤ Pages
+          </button>
+          <button
+            onClick={() => setSidebarPanel((panel) => (panel === 'outline' ? null : 'outline'))}
+            disabled={!rendered}
+            className={`px-2 py-1 border rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              sidebarPanel === 'outline' ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            title={outline.length > 0 ? 'Document outline' : 'Document outline (none in this PDF)'}
+            aria-pressed={sidebarPanel === 'outline'}
+          >
+            ☰ Outline
+          </button>
+          <button
+            onClick={() => setSidebarPanel((panel) => (panel === 'annotations' ? null : 'annotations'))}
+            disabled={!rendered}
+            className={`px-2 py-1 border rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              sidebarPanel === 'annotations' ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            title="Highlights and notes"
+            aria-pressed={sidebarPanel === 'annotations'}
+          >
+            🗂 Annotations{annotations.length > 0 ? ` (${annotations.length})` : ''}
+          </button>
+          <div className="flex items-center gap-1 text-xs">
+            {(['highlight', 'note'] as AnnotationKind[]).map((tool) => (
               <button
-                onClick={() => window.location.reload()}
-                className="mt-3 text-sm text-red-600 hover:text-red-800 underline"
+                key={tool}
+                onClick={() => setAnnotationTool((current) => (current === tool ? null : tool))}
+                disabled={!rendered || !permissions.copy || viewMode === 'reader'}
+                className={`px-2 py-1 border rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  annotationTool === tool ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+                title={
+                  !permissions.copy
+                    ? 'This document does not allow copying its text'
+                    : viewMode === 'reader'
+                    ? 'Switch to a page view to highlight or annotate'
+                    : tool === 'highlight'
+                    ? 'Select text to highlight it'
+                    : 'Select text to attach a note'
+                }
+                aria-pressed={annotationTool === tool}
               >
-                Reload page to retry
+                {tool === 'highlight' ? '🖍 Highlight' : '📝 Note'}
               </button>
-            </div>
+            ))}
+            {annotationTool && ANNOTATION_COLORS.map((color) => (
+              <button
+                key={color.id}
+                onClick={() => setAnnotationColor(color.id)}
+                className={`w-4 h-4 rounded-full border-2 ${annotationColor === color.id ? 'border-gray-700' : 'border-white'}`}
+                style={{ backgroundColor: color.swatch }}
+                aria-label={`${color.label} colour`}
+                aria-pressed={annotationColor === color.id}
+                title={color.label}
+              />
+            ))}
           </div>
-        )}
-
-        {!file && !loading && !error && (
-          <div className="text-gray-500 text-sm">
-            Upload a PDF to get started
+          <button
+            onClick={() => (searchOpen ? handleCloseSearch() : setSearchOpen(true))}
+            disabled={!rendered}
+            className={`px-2 py-1 border rounded text-xs transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              searchOpen ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+            title="Search (Ctrl+F)"
+          >
+            🔍 Search
+          </button>
+          {hasForm && permissions.fillForms && (
+            <button
+              onClick={handleDownloadFilledPdf}
+              disabled={!rendered || savingPdf}
+              className="px-2 py-1 bg-white border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download a copy of the PDF with the values entered in its form fields"
+            >
+              {savingPdf ? 'Saving…' : '⬇ Download filled PDF'}
+            </button>
+          )}
+          <div className="flex items-center gap-1 text-xs">
+            <button
+              onClick={handleZoomOut}
+              disabled={!rendered || viewMode === 'reader' || displayScale <= MIN_SCALE}
+              className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Zoom out"
+            >
+              −
+            </button>
+            <select
+              value={zoom.mode === 'custom' ? String(zoom.scale) : zoom.mode}
+              onChange={(e) => handleZoomSelect(e.target.value)}
+              disabled={!rendered || viewMode === 'reader'}
+              className="px-1 py-1 bg-white border border-gray-300 rounded"
+              aria-label="Zoom level"
+            >
+              {zoom.mode === 'custom' && !ZOOM_PRESETS.includes(zoom.scale) && (
+                <option value={String(zoom.scale)}>{Math.round(zoom.scale * 100)}%</option>
+              )}
+              {ZOOM_PRESETS.map((preset) => (
+                <option key={preset} value={String(preset)}>
+                  {Math.round(preset * 100)}%
+                </option>
+              ))}
+              <option value="fit-width">Fit width</option>
+              <option value="fit-page">Fit page</option>
+            </select>
+            <button
+              onClick={handleZoomIn}
+              disabled={!rendered || viewMode === 'reader' || displayScale >= MAX_SCALE}
+              className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Zoom in"
+            >
+              +
+            </button>
           </div>
+          <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+            <button
+              onClick={() => setViewMode('single')}
+              disabled={renderingPage}
+              className={`px-2 py-1 transition-colors ${viewMode === 'single' ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Single page
+            </button>
+            <button
+              onClick={() => setViewMode('continuous')}
+              disabled={renderingPage}
+              className={`px-2 py-1 transition-colors ${viewMode === 'continuous' ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              Continuous
+            </button>
+            <button
+              onClick={() => setViewMode('reader')}
+              disabled={renderingPage}
+              className={`px-2 py-1 transition-colors ${viewMode === 'reader' ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              title="Reflow the text for reading on small screens"
+            >
+              📖 Reader
+            </button>
+          </div>
+          <select
+            value={documentLanguage?.source === 'override' ? documentLanguage.code : ''}
+            onChange={(e) => handleLanguageSelect(e.target.value)}
+            disabled={!rendered || !documentLanguage}
+            className="px-1 py-1 text-xs bg-white border border-gray-300 rounded disabled:opacity-50"
+            aria-label="Document language"
+            title="Language words are looked up in"
+          >
+            <option value="">
+              Auto
+              {documentLanguage && documentLanguage.source !== 'override'
+                ? ` (${getLanguageName(documentLanguage.code)})`
+                : ''}
+            </option>
+            {LANGUAGES.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {searchOpen && rendered && (
+        <SearchPanel
+          pdfDoc={pdfDocRef.current}
+          hits={searchHits}
+          activeIndex={activeHitIndex}
+          onResults={handleSearchResults}
+          onSelectHit={goToHit}
+          onNext={handleNextHit}
+          onPrev={handlePrevHit}
+          onClose={handleCloseSearch}
+        />
+      )}
+
+      <div className="flex">
+        {sidebarPanel === 'thumbnails' && rendered && !suspended && (
+          <ThumbnailSidebar
+            pdfDoc={pdfDocRef.current}
+            numPages={numPages}
+            currentPage={currentPage}
+            paused={renderingPage}
+            onSelectPage={handlePageChange}
+          />
+        )}
+        {sidebarPanel === 'outline' && rendered && (
+          <OutlinePanel outline={outline} onSelect={handleOutlineSelect} />
+        )}
+        {sidebarPanel === 'annotations' && rendered && (
+          <AnnotationsPanel
+            annotations={annotations}
+            pageLabels={pageLabels}
+            focusedId={focusedAnnotationId}
+            editingId={editingAnnotationId}
+            onEditingChange={setEditingAnnotationId}
+            onSelect={handleSelectAnnotation}
+            onChange={handleChangeAnnotation}
+            onDelete={handleDeleteAnnotation}
+          />
         )}
 
-        <div className="w-full max-w-4xl mx-auto p-4">
-          {rendered && noTextForPage && (
-            <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-center">
-              <p className="text-yellow-800 text-sm">
-                ⚠️ Interactive text unavailable for this page. PDF may be scanned or image-based.
-              </p>
+        <div
+          ref={containerRef}
+          className="relative flex-1 min-w-0 bg-gray-50 flex items-center justify-center min-h-96 overflow-auto"
+          onCopy={permissions.copy ? undefined : handleBlockedCopy}
+          onCut={permissions.copy ? undefined : handleBlockedCopy}
+        >
+          {(loading || renderingPage) && (
+            <div className="absolute inset-0 flex items-center justify-center bg-gray-50 bg-opacity-90 z-10">
+              <div className="flex flex-col items-center gap-3">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500" />
+                <p className="text-sm text-gray-600">
+                  {renderingPage ? `Rendering page ${currentPage}...` : 'Loading PDF...'}
+                </p>
+              </div>
             </div>
           )}
 
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center p-4">
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 max-w-md">
+                <p className="text-red-800 text-sm font-medium mb-2">
+                  {errorKind === 'password' ? '🔒 Password required' : errorKind === 'corrupt' ? 'Unreadable PDF' : 'Error Loading PDF'}
+                </p>
+                <p className="text-red-700 text-sm">{error}</p>
+                {errorKind === 'password' ? (
+                  <button
+                    onClick={() => setLoadAttempt((n) => n + 1)}
+                    className="mt-3 text-sm text-red-600 hover:text-red-800 underline"
+                  >
+                    Enter password
+                  </button>
+                ) : errorKind !== 'corrupt' && (
+                  <button
+                    onClick={() => window.location.reload()}
+                    className="mt-3 text-sm text-red-600 hover:text-red-800 underline"
+                  >
+                    Reload page to retry
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {!file && !loading && !error && (
+            <div className="text-gray-500 text-sm">
+              Upload a PDF to get started
+            </div>
+          )}
+
+          {viewMode === 'continuous' && rendered && !suspended && file && !error && (
+            <ContinuousPageView
+              pdfDoc={pdfDocRef.current}
+              numPages={numPages}
+              zoom={zoom}
+              availableSize={availableSize}
+              scrollRequest={scrollRequest}
+              onCurrentPageChange={handleVisiblePageChange}
+              onScrollPositionChange={rememberPosition}
+              onTextLayerClick={handleTextLayerClick}
+              onTextLayerTouch={handleTextLayerTouch}
+              searchHits={searchHits}
+              activeHitId={searchHits[activeHitIndex]?.id ?? null}
+              annotations={annotations}
+              focusedAnnotationId={focusedAnnotationId}
+              onSelectedHighlight={handleSelectedHighlight}
+              linkHandlers={linkHandlers}
+              formsReadOnly={!permissions.fillForms}
+              documentKey={docKey}
+              language={documentLanguage?.code || DEFAULT_LANGUAGE}
+            />
+          )}
+
+          {viewMode === 'reader' && rendered && file && !error && (
+            <ReaderView
+              pdfDoc={pdfDocRef.current}
+              documentKey={docKey}
+              numPages={numPages}
+              scrollRequest={scrollRequest}
+              onCurrentPageChange={handleVisiblePageChange}
+              onScrollPositionChange={rememberPosition}
+              onWordClick={handleTextLayerClick}
+              onWordTouch={handleTextLayerTouch}
+            />
+          )}
+
           <div
-            className="relative inline-block mx-auto"
-            style={{ display: rendered && file && !error ? 'block' : 'none' }}
+            className="w-full p-4"
+            style={{ display: viewMode === 'single' ? undefined : 'none' }}
           >
-            <canvas
-              ref={canvasRef}
-              className="shadow-lg rounded-sm"
-            />
-            {hasTextLayer && (
+            {rendered && noTextForPage && (
+              <div className="mb-4">
+                <OcrStatus
+                  progress={ocrProgress}
+                  error={ocrError}
+                  onStart={handleRecognizePage}
+                  onCancel={handleCancelOcr}
+                />
+              </div>
+            )}
+            {rendered && ocrNotice && (
+              <p className="mb-2 text-xs text-gray-500 text-center">
+                🔎 {ocrNotice}
+              </p>
+            )}
+
+            <div
+              className="relative inline-block mx-auto w-fit"
+              style={{ display: rendered && file && !error ? 'block' : 'none' }}
+            >
+              <canvas
+                ref={canvasRef}
+                className="shadow-lg rounded-sm"
+              />
               <div
                 ref={textLayerRef}
                 className="textLayer"
                 onClick={handleTextLayerClick}
                 onTouchEnd={handleTextLayerTouch}
               />
-            )}
+              <div ref={linkLayerRef} className="linkLayer" />
+              <div ref={annotationLayerRef} className="annotationLayer" />
+            </div>
           </div>
         </div>
       </div>
@@ -581,8 +1843,13 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
             {renderingPage
               ? `Rendering page ${currentPage}...`
               : rendered && numPages > 0
-              ? `Page ${currentPage} of ${numPages} — ${hasTextLayer ? 'Click any word to see its definition' : 'No interactive text on this page'}`
+              ? viewMode === 'continuous'
+                ? `Page ${currentPage} of ${numPages} — Scroll to read, click any word to see its definition`
+                : viewMode === 'reader'
+                ? `Page ${currentPage} of ${numPages} — Reader mode, click any word to see its definition`
+                : `Page ${currentPage} of ${numPages} — ${hasTextLayer ? 'Click any word to see its definition' : 'No interactive text on this page'}`
               : 'Ready to render PDF'}
+            {annotationTool && rendered && ` • Select text to add a ${annotationTool}`}
           </span>
           {rendered && hasTextLayer && !renderingPage && (
             <span className="hidden sm:inline">
@@ -601,7 +1868,7 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
               ← Previous
             </button>
             <span className="text-sm font-medium text-gray-700">
-              Page {currentPage} of {numPages}
+              Page {getPageLabel(currentPage, pageLabels)}{pageLabels ? ` (${currentPage} of ${numPages})` : ` of ${numPages}`}
             </span>
             <button
               onClick={handleNextPage}
@@ -615,6 +1882,13 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
       </div>
     </section>
 
+    <PasswordDialog
+      reason={passwordReason}
+      fileName={file?.name || ''}
+      onSubmit={handlePasswordSubmit}
+      onCancel={handlePasswordCancel}
+    />
+
     {/* Debug banner (dev only) */}
     <div className="fixed right-4 bottom-4 z-50">
       <div className="flex items-start gap-2">
@@ -625,10 +1899,36 @@ export default function PdfViewer({ file, onWordClick, onClosePopup }: PdfViewer
           <div className="bg-white p-2 border rounded shadow text-xs w-72">
             <div className="font-medium text-sm mb-2">Debug</div>
             <div><strong>Error:</strong> {error || '—'}</div>
-            <div><strong>Rendered:</strong> {String(rendered)}</div>
-            <div><strong>Page:</strong> {currentPage} / {numPages}</div>
+            <div><strong>Rendered:</strong> {String(rendered)}{suspended ? ' (suspended)' : ''}</div>
+            <div><strong>Page:</strong> {currentPage} / {numPages}{pageLabels ? ` (label ${getPageLabel(currentPage, pageLabels)})` : ''}</div>
+            <div><strong>Mode:</strong> {viewMode}</div>
+            <div><strong>Sidebar:</strong> {sidebarPanel || 'closed'}</div>
+            <div><strong>Outline items:</strong> {outline.length}</div>
+            <div><strong>Form fields:</strong> {hasForm ? 'yes' : 'no'}</div>
+            <div>
+              <strong>Permissions:</strong> copy {permissions.copy ? 'yes' : 'no'}, fill forms {permissions.fillForms ? 'yes' : 'no'}
+            </div>
+            <div><strong>Annotations:</strong> {annotations.length}{annotationTool ? ` (tool: ${annotationTool})` : ''}</div>
+            <div><strong>Zoom:</strong> {zoom.mode} ({Math.round(displayScale * 100)}%)</div>
+            <div>
+              <strong>Language:</strong>{' '}
+              {documentLanguage
+                ? `${documentLanguage.code} (${documentLanguage.source}; text ${documentLanguage.detected || '—'}, /Lang ${documentLanguage.metadata || '—'})`
+                : '—'}
+            </div>
             <div><strong>Rendering:</strong> {String(renderingPage)}</div>
+            <div>
+              <strong>OCR:</strong>{' '}
+              {ocrProgress
+                ? `${ocrProgress.status} (${Math.round(ocrProgress.progress * 100)}%)`
+                : ocrNotice
+                ? 'page text recognized'
+                : '—'}
+            </div>
             <div><strong>pdfDoc:</strong> {pdfDocRef.current ? 'present' : 'missing'}</div>
+            <div className="truncate" title={pdfJsSource?.scriptUrl}>
+              <strong>PDF.js:</strong> {pdfJsSource ? `${pdfJsSource.name} (${pdfJsSource.scriptUrl})` : 'not loaded'}
+            </div>
           </div>
         )}
       </div>
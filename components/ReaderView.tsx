@@ -0,0 +1,403 @@
+import { useEffect, useLayoutEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { getPageLayout, analyzeLayout, ocrPageLines } from '@/lib/pdfLayout';
+import { loadOcrResult, describeOcrResult } from '@/lib/ocr';
+import {
+  ReaderSettings,
+  ReaderElement,
+  READER_FONTS,
+  READER_LINE_HEIGHTS,
+  READER_WIDTHS,
+  MIN_READER_FONT_SIZE,
+  MAX_READER_FONT_SIZE,
+  buildReaderElements,
+  getReaderFontFamily,
+  loadReaderSettings,
+  saveReaderSettings,
+} from '@/lib/readerMode';
+import { LayoutWord } from '@/types/pdf';
+
+// Pages this many screens above or below the view have their text loaded
+const LOAD_AHEAD_SCREENS = 1;
+// Room left above a page or paragraph scrolled to the top
+const SCROLL_MARGIN = 16;
+
+interface ScrollRequest {
+  page: number;
+  // Fraction of the page's height where reading should resume
+  offset?: number;
+  id: number;
+}
+
+interface ReaderViewProps {
+  pdfDoc: any;
+  // Key OCR results are stored under, for pages that are only an image
+  documentKey: string | null;
+  numPages: number;
+  scrollRequest: ScrollRequest | null;
+  onCurrentPageChange: (page: number) => void;
+  // Page at the top of the view and where on that page its first visible text starts
+  onScrollPositionChange: (page: number, offset: number) => void;
+  onWordClick: (event: React.MouseEvent) => void;
+  onWordTouch: (event: React.TouchEvent) => void;
+}
+
+// null once a page's text failed to load; `ocrNotice` when it was recognized from the page image
+type PageText = { elements: ReaderElement[]; ocrNotice: string | null } | null;
+
+function Words({ words }: { words: LayoutWord[] }) {
+  return (
+    <>
+      {words.map((word, i) => (
+        <span key={i}>
+          {i > 0 && ' '}
+          {word.word ? (
+            <span data-word className="cursor-pointer rounded hover:bg-blue-100">
+              {word.text}
+            </span>
+          ) : (
+            word.text
+          )}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function Element({ element }: { element: ReaderElement }) {
+  const top = String(element.top);
+
+  if (element.kind === 'heading') {
+    const Heading = `h${element.level}` as 'h2' | 'h3' | 'h4';
+    const size = element.level === 2 ? 'text-[1.5em]' : element.level === 3 ? 'text-[1.25em]' : 'text-[1.1em]';
+    return (
+      <Heading data-top={top} className={`${size} font-semibold leading-tight mt-[1.2em] mb-[0.5em]`}>
+        <Words words={element.words} />
+      </Heading>
+    );
+  }
+
+  if (element.kind === 'list') {
+    const items = element.items.map((words, i) => (
+      <li key={i} className="mb-[0.25em]">
+        <Words words={words} />
+      </li>
+    ));
+    return element.ordered ? (
+      <ol data-top={top} start={element.start} className="list-decimal pl-[1.5em] mb-[1em]">
+        {items}
+      </ol>
+    ) : (
+      <ul data-top={top} className="list-disc pl-[1.5em] mb-[1em]">
+        {items}
+      </ul>
+    );
+  }
+
+  return (
+    <p data-top={top} className="mb-[1em]">
+      <Words words={element.words} />
+    </p>
+  );
+}
+
+/**
+ * Reflowed text of the whole document, one section per page. Pages load
+ * their layout as they come near the view; the typography is adjustable
+ * and remembered across documents.
+ */
+export default function ReaderView({
+  pdfDoc,
+  documentKey,
+  numPages,
+  scrollRequest,
+  onCurrentPageChange,
+  onScrollPositionChange,
+  onWordClick,
+  onWordTouch,
+}: ReaderViewProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const sectionRefs = useRef<Map<number, HTMLElement>>(new Map());
+  const [settings, setSettings] = useState<ReaderSettings>(loadReaderSettings);
+  const [pages, setPages] = useState<Record<number, PageText>>({});
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+  const loadingRef = useRef<Set<number>>(new Set());
+  const pendingScrollRef = useRef<ScrollRequest | null>(null);
+  // Element at the top of the view and its distance from it, restored after
+  // pages above change height (loaded text, new settings)
+  const anchorRef = useRef<{ el: HTMLElement; distance: number } | null>(null);
+
+  useEffect(() => {
+    saveReaderSettings(settings);
+  }, [settings]);
+
+  // A new document starts over
+  useEffect(() => {
+    setPages({});
+    loadingRef.current.clear();
+  }, [pdfDoc]);
+
+  const captureAnchor = useCallback(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const top = scroller.scrollTop;
+    // Sections come before their paragraphs, so the last one starting above
+    // the top is the innermost element there
+    const candidates = Array.from(scroller.querySelectorAll<HTMLElement>('[data-page], [data-top]'));
+    const el = candidates.filter((c) => c.offsetTop <= top).pop() || candidates[0];
+    anchorRef.current = el ? { el, distance: el.offsetTop - top } : null;
+  }, []);
+
+  const loadPage = useCallback((pageNumber: number) => {
+    if (!pdfDoc || pageNumber in pagesRef.current || loadingRef.current.has(pageNumber)) return;
+    loadingRef.current.add(pageNumber);
+
+    getPageLayout(pdfDoc, pageNumber)
+      .then(async (layout): Promise<PageText> => {
+        // Image-only pages show their recognized text, once there is some
+        if (layout.blocks.length === 0 && documentKey) {
+          const ocr = await loadOcrResult(documentKey, pageNumber);
+          if (ocr && ocr.words.length > 0) {
+            const lines = ocrPageLines(ocr.words, layout.width, layout.height);
+            return { elements: buildReaderElements(analyzeLayout(lines, pageNumber)), ocrNotice: describeOcrResult(ocr) };
+          }
+        }
+        return { elements: buildReaderElements(layout), ocrNotice: null };
+      })
+      .catch((err) => {
+        console.error('[Reader] Failed to load page', pageNumber, err);
+        return null;
+      })
+      .then((text) => {
+        loadingRef.current.delete(pageNumber);
+        captureAnchor();
+        setPages((prev) => ({ ...prev, [pageNumber]: text }));
+      });
+  }, [pdfDoc, documentKey, captureAnchor]);
+
+  // Load the text of every page near the view
+  const loadNearbyPages = useCallback(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+    const margin = scroller.clientHeight * LOAD_AHEAD_SCREENS;
+    const from = scroller.scrollTop - margin;
+    const to = scroller.scrollTop + scroller.clientHeight + margin;
+    sectionRefs.current.forEach((el, pageNumber) => {
+      if (el.offsetTop < to && el.offsetTop + el.offsetHeight > from) {
+        loadPage(pageNumber);
+      }
+    });
+  }, [loadPage]);
+
+  // Jump to a requested page (and paragraph) once its text is there
+  const applyPendingScroll = useCallback(() => {
+    const request = pendingScrollRef.current;
+    const scroller = scrollerRef.current;
+    const section = sectionRefs.current.get(request?.page ?? 0);
+    if (!request || !scroller || !section) return;
+    if (request.offset && !(request.page in pagesRef.current)) return;
+
+    pendingScrollRef.current = null;
+    const offset = request.offset || 0;
+    const paragraphs = Array.from(section.querySelectorAll<HTMLElement>('[data-top]'));
+    const target = offset > 0 ? paragraphs.find((el) => Number(el.dataset.top) >= offset - 0.01) : null;
+    scroller.scrollTop = (target || section).offsetTop - SCROLL_MARGIN;
+    anchorRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!scrollRequest) return;
+    pendingScrollRef.current = scrollRequest;
+    loadPage(scrollRequest.page);
+    applyPendingScroll();
+  }, [scrollRequest, loadPage, applyPendingScroll]);
+
+  // Keep the reader's place while text above it loads or reflows
+  useLayoutEffect(() => {
+    const scroller = scrollerRef.current;
+    const anchor = anchorRef.current;
+    if (scroller && anchor && anchor.el.isConnected) {
+      scroller.scrollTop = anchor.el.offsetTop - anchor.distance;
+    }
+    anchorRef.current = null;
+    applyPendingScroll();
+  }, [pages, settings, applyPendingScroll]);
+
+  useEffect(() => {
+    loadNearbyPages();
+  }, [pages, loadNearbyPages]);
+
+  // Report the page and paragraph at the top once scrolling pauses
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    let timeout: NodeJS.Timeout | null = null;
+
+    const report = () => {
+      const top = scroller.scrollTop + SCROLL_MARGIN;
+      const sections = Array.from(sectionRefs.current.entries()).sort((a, b) => a[0] - b[0]);
+      const current = sections.filter(([, el]) => el.offsetTop <= top).pop() || sections[0];
+      if (!current) return;
+      const [pageNumber, section] = current;
+      const paragraph = Array.from(section.querySelectorAll<HTMLElement>('[data-top]')).find(
+        (el) => el.offsetTop + el.offsetHeight > top
+      );
+      onCurrentPageChange(pageNumber);
+      onScrollPositionChange(pageNumber, paragraph ? Number(paragraph.dataset.top) : 0);
+    };
+
+    const handleScroll = () => {
+      loadNearbyPages();
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(report, 200);
+    };
+
+    scroller.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      scroller.removeEventListener('scroll', handleScroll);
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [loadNearbyPages, onCurrentPageChange, onScrollPositionChange]);
+
+  const updateSettings = (change: Partial<ReaderSettings>) => {
+    captureAnchor();
+    setSettings((prev) => ({ ...prev, ...change }));
+  };
+
+  const registerSection = useCallback((pageNumber: number, el: HTMLElement | null) => {
+    if (el) {
+      sectionRefs.current.set(pageNumber, el);
+    } else {
+      sectionRefs.current.delete(pageNumber);
+    }
+  }, []);
+
+  // Only word spans (or a dragged selection) count as a lookup, not clicks between words
+  const isWordEvent = (target: EventTarget) =>
+    (target instanceof HTMLElement && target.closest('[data-word]')) || !!window.getSelection()?.toString().trim();
+
+  const handleClick = (event: React.MouseEvent) => {
+    if (isWordEvent(event.target)) onWordClick(event);
+  };
+
+  const handleTouch = (event: React.TouchEvent) => {
+    if (isWordEvent(event.target)) onWordTouch(event);
+  };
+
+  const sections = useMemo(() => {
+    const list = [];
+    for (let pageNumber = 1; pageNumber <= numPages; pageNumber++) {
+      const text = pages[pageNumber];
+      list.push(
+        <section key={pageNumber} data-page={pageNumber} ref={(el) => registerSection(pageNumber, el)}>
+          <div className="flex items-center gap-2 my-4 text-xs text-gray-400 font-sans select-none">
+            <span className="flex-1 border-t border-gray-200" />
+            Page {pageNumber}
+            <span className="flex-1 border-t border-gray-200" />
+          </div>
+          {text === undefined ? (
+            <p className="min-h-[50vh] text-sm text-gray-400 font-sans">Loading text…</p>
+          ) : text === null ? (
+            <p className="text-sm text-red-600 font-sans">Could not read the text of this page.</p>
+          ) : text.elements.length === 0 ? (
+            <p className="text-sm text-gray-500 font-sans">
+              This page has no text layer; it is probably a scanned image. Switch back to the page view to see
+              it, or use 🔎 Recognize text there to read it here.
+            </p>
+          ) : (
+            <>
+              {text.ocrNotice && <p className="text-xs text-gray-400 font-sans mb-2">🔎 {text.ocrNotice}</p>}
+              {text.elements.map((element, i) => <Element key={i} element={element} />)}
+            </>
+          )}
+        </section>
+      );
+    }
+    return list;
+  }, [numPages, pages, registerSection]);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-center justify-center gap-2 px-4 py-2 border-b border-gray-200 bg-white text-xs text-gray-700">
+        <select
+          value={settings.font}
+          onChange={(e) => updateSettings({ font: e.target.value as ReaderSettings['font'] })}
+          className="px-1 py-1 bg-white border border-gray-300 rounded"
+          aria-label="Reader font"
+        >
+          {READER_FONTS.map((font) => (
+            <option key={font.id} value={font.id}>
+              {font.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => updateSettings({ fontSize: Math.max(MIN_READER_FONT_SIZE, settings.fontSize - 1) })}
+            disabled={settings.fontSize <= MIN_READER_FONT_SIZE}
+            className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Smaller text"
+          >
+            A−
+          </button>
+          <span className="w-10 text-center">{settings.fontSize}px</span>
+          <button
+            onClick={() => updateSettings({ fontSize: Math.min(MAX_READER_FONT_SIZE, settings.fontSize + 1) })}
+            disabled={settings.fontSize >= MAX_READER_FONT_SIZE}
+            className="px-2 py-1 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Larger text"
+          >
+            A+
+          </button>
+        </div>
+        <select
+          value={String(settings.lineHeight)}
+          onChange={(e) => updateSettings({ lineHeight: Number(e.target.value) })}
+          className="px-1 py-1 bg-white border border-gray-300 rounded"
+          aria-label="Line spacing"
+          title="Line spacing"
+        >
+          {READER_LINE_HEIGHTS.map((value) => (
+            <option key={value} value={String(value)}>
+              Spacing {value}
+            </option>
+          ))}
+        </select>
+        <select
+          value={String(settings.width)}
+          onChange={(e) => updateSettings({ width: Number(e.target.value) })}
+          className="px-1 py-1 bg-white border border-gray-300 rounded"
+          aria-label="Line width"
+          title="Line width"
+        >
+          {READER_WIDTHS.map((value) => (
+            <option key={value} value={String(value)}>
+              Width {value} ch
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div
+        ref={scrollerRef}
+        className="relative w-full max-h-[80vh] overflow-auto px-4 pb-8 bg-white"
+        style={{ overflowAnchor: 'none' }}
+      >
+        <article
+          className="mx-auto text-gray-900"
+          style={{
+            fontFamily: getReaderFontFamily(settings.font),
+            fontSize: `${settings.fontSize}px`,
+            lineHeight: settings.lineHeight,
+            maxWidth: `${settings.width}ch`,
+          }}
+          onClick={handleClick}
+          onTouchEnd={handleTouch}
+        >
+          {sections}
+        </article>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { OpenedFile, RecentDocument } from '@/types/pdf';
+import {
+  listRecentDocuments,
+  removeRecentDocument,
+  openRecentDocument,
+  canReopen,
+} from '@/lib/recentDocuments';
+import { loadReadingPosition } from '@/lib/readingPosition';
+
+interface RecentDocumentsProps {
+  onOpen: (opened: OpenedFile) => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function RecentDocuments({ onOpen }: RecentDocumentsProps) {
+  const [documents, setDocuments] = useState<RecentDocument[]>([]);
+  const [openingKey, setOpeningKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listRecentDocuments()
+      .then(setDocuments)
+      .catch((err) => console.warn('[RecentDocuments] Failed to load recent documents:', err));
+  }, []);
+
+  const handleOpen = async (doc: RecentDocument) => {
+    setOpeningKey(doc.key);
+    setError(null);
+    try {
+      const file = await openRecentDocument(doc);
+      onOpen({ file, handle: doc.handle });
+    } catch (err) {
+      console.error('[RecentDocuments] Failed to reopen', doc.name, err);
+      setError(err instanceof Error ? err.message : `Could not open ${doc.name}.`);
+    } finally {
+      setOpeningKey(null);
+    }
+  };
+
+  const handleRemove = async (doc: RecentDocument) => {
+    try {
+      await removeRecentDocument(doc.key);
+      setDocuments((prev) => prev.filter((d) => d.key !== doc.key));
+    } catch (err) {
+      console.error('[RecentDocuments] Failed to remove', doc.name, err);
+    }
+  };
+
+  if (documents.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-8 bg-white rounded-lg shadow-md p-4 sm:p-6">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Recent documents</h2>
+      {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+      <ul className="divide-y divide-gray-100">
+        {documents.map((doc) => {
+          const position = loadReadingPosition(doc.key);
+          const available = canReopen(doc);
+          return (
+            <li key={doc.key} className="flex items-center gap-3 py-2">
+              <button
+                onClick={() => handleOpen(doc)}
+                disabled={!available || openingKey !== null}
+                className="flex-1 min-w-0 text-left group disabled:cursor-not-allowed"
+                title={available ? 'Resume reading' : 'No copy was kept of this file; open it again from disk'}
+              >
+                <span className={`block truncate text-sm font-medium ${available ? 'text-gray-900 group-hover:text-blue-600' : 'text-gray-400'}`}>
+                  📄 {doc.name}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {position ? `Page ${Math.min(position.page, doc.numPages)} of ${doc.numPages}` : `${doc.numPages} pages`}
+                  {' · '}
+                  {formatSize(doc.size)}
+                  {' · '}
+                  {new Date(doc.openedAt).toLocaleDateString()}
+                  {!available && ' · not stored'}
+                </span>
+              </button>
+              {openingKey === doc.key ? (
+                <span className="text-xs text-gray-500">Opening…</span>
+              ) : (
+                <button
+                  onClick={() => handleRemove(doc)}
+                  className="px-2 py-0.5 text-xs rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  aria-label={`Remove ${doc.name} from recent documents`}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
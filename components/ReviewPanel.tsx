@@ -0,0 +1,272 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import { ReviewCard } from '@/types/pdf';
+import {
+  GRADES,
+  ReviewStats,
+  getDueCards,
+  getReviewStats,
+  reviewCard,
+  scheduleCard,
+  formatInterval,
+} from '@/lib/reviewDeck';
+import { getLanguageName } from '@/lib/languageDetection';
+
+interface ReviewPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after each review so the header's due count stays current
+  onReviewed: () => void;
+}
+
+/**
+ * The context sentence with the card's word in bold
+ */
+function CardSentence({ sentence, word }: { sentence: string; word: string }) {
+  const at = sentence.toLowerCase().indexOf(word.toLowerCase());
+  if (at === -1) {
+    return <>{sentence}</>;
+  }
+  return (
+    <>
+      {sentence.slice(0, at)}
+      <strong className="font-semibold text-gray-900 not-italic">{sentence.slice(at, at + word.length)}</strong>
+      {sentence.slice(at + word.length)}
+    </>
+  );
+}
+
+function ReviewSession({ onReviewed }: { onReviewed: () => void }) {
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDueCards()
+      .then(setQueue)
+      .catch((err) => {
+        console.error('[ReviewPanel] Failed to load due cards:', err);
+        setError('The review deck could not be loaded (IndexedDB unavailable).');
+        setQueue([]);
+      });
+  }, []);
+
+  const card = queue && queue.length > 0 ? queue[0] : null;
+
+  const handleGrade = useCallback(
+    async (grade: number) => {
+      if (!card || busy) return;
+      setBusy(true);
+      try {
+        const next = await reviewCard(card, grade);
+        // Failed cards come back at the end of this session
+        setQueue((prev) => (prev ? [...prev.slice(1), ...(grade < 3 ? [next] : [])] : prev));
+        setShowAnswer(false);
+        setReviewedCount((c) => c + 1);
+        onReviewed();
+      } catch (err) {
+        console.error('[ReviewPanel] Failed to save review:', err);
+        setError('Could not save the review.');
+      } finally {
+        setBusy(false);
+      }
+    },
+    [card, busy, onReviewed]
+  );
+
+  // Space/Enter reveals the answer, 1-4 grade it
+  useEffect(() => {
+    if (!card) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!showAnswer && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        setShowAnswer(true);
+        return;
+      }
+      const grade = showAnswer && GRADES.find((g) => g.key === e.key);
+      if (grade) {
+        e.preventDefault();
+        handleGrade(grade.value);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [card, showAnswer, handleGrade]);
+
+  if (!queue) {
+    return <p className="text-sm text-gray-500 py-8 text-center">Loading…</p>;
+  }
+
+  if (!card) {
+    return (
+      <div className="py-8 text-center space-y-1">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            <p className="text-lg">🎉</p>
+            <p className="text-sm text-gray-700">
+              {reviewedCount > 0 ? `Done! You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'}.` : 'No cards due today.'}
+            </p>
+            <p className="text-xs text-gray-500">Words you look up are added to the deck automatically.</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const meaning = card.data.meanings?.[0];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {queue.length} card{queue.length === 1 ? '' : 's'} left · {reviewedCount} reviewed
+      </p>
+
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3 min-h-[12rem]">
+        <div className="text-center">
+          <p className="text-2xl font-bold text-gray-900">{card.word}</p>
+          <p className="text-xs text-gray-400">{getLanguageName(card.language)}</p>
+        </div>
+        {card.sentence && (
+          <p className="text-sm text-gray-600 italic border-l-2 border-gray-200 pl-2">
+            <CardSentence sentence={card.sentence} word={card.word} />
+            {card.documentName && (
+              <span className="block mt-1 text-xs not-italic text-gray-400">
+                {card.documentName}
+                {card.pageNumber > 0 ? ` · p. ${card.pageNumber}` : ''}
+              </span>
+            )}
+          </p>
+        )}
+
+        {showAnswer && (
+          <div className="border-t border-gray-200 pt-3 space-y-1">
+            {meaning && <p className="text-xs italic text-gray-500">{meaning.partOfSpeech}</p>}
+            <p className="text-sm text-gray-800">{card.data.definition}</p>
+            {card.data.example && <p className="text-xs text-gray-600 italic">"{card.data.example}"</p>}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {!showAnswer ? (
+        <button
+          onClick={() => setShowAnswer(true)}
+          className="w-full px-3 py-2 text-sm rounded bg-blue-500 text-white hover:bg-blue-600"
+        >
+          Show answer <span className="text-blue-100 text-xs">(Space)</span>
+        </button>
+      ) : (
+        <div className="grid grid-cols-4 gap-2">
+          {GRADES.map((grade) => (
+            <button
+              key={grade.value}
+              onClick={() => handleGrade(grade.value)}
+              disabled={busy}
+              className={`px-2 py-2 text-sm rounded border transition-colors disabled:opacity-50 ${
+                grade.value < 3
+                  ? 'border-red-300 text-red-700 hover:bg-red-50'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {grade.label}
+              <span className="block text-xs text-gray-400">
+                {formatInterval(scheduleCard(card, grade.value).interval)} · {grade.key}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReviewStatistics() {
+  const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getReviewStats()
+      .then(setStats)
+      .catch((err) => {
+        console.error('[ReviewPanel] Failed to load statistics:', err);
+        setError('Statistics could not be loaded.');
+      });
+  }, []);
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!stats) return <p className="text-sm text-gray-500">Loading…</p>;
+
+  const maxCount = Math.max(1, ...stats.history.map((h) => h.count));
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-3 gap-3 text-center">
+        {[
+          ['Due today', stats.dueToday],
+          ['Reviewed today', stats.reviewedToday],
+          ['Day streak', stats.streak],
+          ['Cards', stats.totalCards],
+          ['New', stats.newCards],
+          ['Retention (30d)', stats.retention === null ? '—' : `${Math.round(stats.retention * 100)}%`],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded border border-gray-200 p-2">
+            <dd className="text-lg font-semibold text-gray-900">{value}</dd>
+            <dt className="text-xs text-gray-500">{label}</dt>
+          </div>
+        ))}
+      </dl>
+
+      <div>
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+          Reviews, last {stats.history.length} days ({stats.totalReviews} total)
+        </p>
+        <div className="flex items-end gap-1 h-24" aria-label="Reviews per day">
+          {stats.history.map((h) => (
+            <div
+              key={h.day}
+              className="flex-1 bg-blue-400 rounded-t"
+              style={{ height: `${Math.max(2, (h.count / maxCount) * 100)}%`, opacity: h.count ? 1 : 0.25 }}
+              title={`${new Date(h.day).toLocaleDateString()}: ${h.count} review${h.count === 1 ? '' : 's'}`}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function ReviewPanel({ open, onOpenChange, onReviewed }: ReviewPanelProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review</DialogTitle>
+          <DialogDescription>
+            Flashcards of the words you looked up, scheduled by spaced repetition.
+          </DialogDescription>
+        </DialogHeader>
+
+        {open && (
+          <Tabs defaultValue="review">
+            <TabsList className="gap-2 border-b border-gray-200">
+              <TabsTrigger value="review">Review</TabsTrigger>
+              <TabsTrigger value="stats">Statistics</TabsTrigger>
+            </TabsList>
+            <TabsContent value="review" className="pt-3">
+              <ReviewSession onReviewed={onReviewed} />
+            </TabsContent>
+            <TabsContent value="stats" className="pt-3">
+              <ReviewStatistics />
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
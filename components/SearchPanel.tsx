@@ -0,0 +1,218 @@
+import { useEffect, useRef, useState } from 'react';
+import { SearchHit, SearchOptions } from '@/types/pdf';
+import { searchDocument, MAX_SEARCH_HITS } from '@/lib/pdfSearch';
+
+interface SearchPanelProps {
+  pdfDoc: any;
+  hits: SearchHit[];
+  activeIndex: number;
+  onResults: (hits: SearchHit[]) => void;
+  onSelectHit: (index: number) => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onClose: () => void;
+}
+
+export default function SearchPanel({
+  pdfDoc,
+  hits,
+  activeIndex,
+  onResults,
+  onSelectHit,
+  onNext,
+  onPrev,
+  onClose,
+}: SearchPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const searchIdRef = useRef(0);
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<SearchOptions>({
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  });
+  const [searching, setSearching] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  // Debounced search whenever the query or options change
+  useEffect(() => {
+    searchIdRef.current += 1;
+    const searchId = searchIdRef.current;
+    const isCancelled = () => searchId !== searchIdRef.current;
+
+    if (!pdfDoc || !query.trim()) {
+      setSearching(false);
+      setProgress(null);
+      setError(null);
+      onResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      setError(null);
+
+      try {
+        const results = await searchDocument(pdfDoc, query, options, {
+          isCancelled,
+          onProgress: (done, total) => {
+            if (!isCancelled()) setProgress({ done, total });
+          },
+        });
+        if (results) {
+          onResults(results);
+        }
+      } catch (err) {
+        if (isCancelled()) return;
+        console.error('[SearchPanel] Search failed:', err);
+        setError(err instanceof Error ? err.message : 'Search failed');
+        onResults([]);
+      } finally {
+        if (!isCancelled()) {
+          setSearching(false);
+          setProgress(null);
+        }
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [pdfDoc, query, options]);
+
+  // Cancel any running search when the panel closes
+  useEffect(() => {
+    return () => {
+      searchIdRef.current += 1;
+    };
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrev();
+      } else {
+        onNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  const toggleOption = (key: keyof SearchOptions) => {
+    setOptions((prev) => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const pageCount = new Set(hits.map((hit) => hit.pageNumber)).size;
+
+  const optionClass = (active: boolean) =>
+    `px-2 py-1 rounded border text-xs font-mono transition-colors ${
+      active ? 'bg-blue-500 border-blue-500 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-4 sm:px-6 py-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search in document..."
+          className="flex-1 min-w-[10rem] px-3 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Search text"
+        />
+        <button
+          onClick={() => toggleOption('caseSensitive')}
+          className={optionClass(options.caseSensitive)}
+          title="Match case"
+          aria-pressed={options.caseSensitive}
+        >
+          Aa
+        </button>
+        <button
+          onClick={() => toggleOption('wholeWord')}
+          className={optionClass(options.wholeWord)}
+          title="Whole word"
+          aria-pressed={options.wholeWord}
+        >
+          ab|
+        </button>
+        <button
+          onClick={() => toggleOption('regex')}
+          className={optionClass(options.regex)}
+          title="Regular expression"
+          aria-pressed={options.regex}
+        >
+          .*
+        </button>
+        <button
+          onClick={onPrev}
+          disabled={hits.length === 0}
+          className="px-2 py-1 bg-white border border-gray-300 rounded text-xs hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Previous match (Shift+Enter)"
+        >
+          ↑
+        </button>
+        <button
+          onClick={onNext}
+          disabled={hits.length === 0}
+          className="px-2 py-1 bg-white border border-gray-300 rounded text-xs hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Next match (Enter)"
+        >
+          ↓
+        </button>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 text-gray-500 hover:text-gray-800 text-sm"
+          aria-label="Close search"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="text-xs text-gray-600">
+        {error ? (
+          <span className="text-red-600">{error}</span>
+        ) : searching ? (
+          progress ? `Searching page ${progress.done} of ${progress.total}...` : 'Searching...'
+        ) : query.trim() ? (
+          hits.length > 0
+            ? `${activeIndex >= 0 ? `${activeIndex + 1} of ` : ''}${hits.length}${hits.length >= MAX_SEARCH_HITS ? '+' : ''} matches on ${pageCount} page${pageCount === 1 ? '' : 's'}`
+            : 'No matches'
+        ) : (
+          'Enter to go to the next match, Shift+Enter for the previous one'
+        )}
+      </div>
+
+      {hits.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+          {hits.map((hit, index) => (
+            <li key={hit.id}>
+              <button
+                onClick={() => onSelectHit(index)}
+                className={`w-full text-left px-3 py-2 text-xs flex gap-3 transition-colors ${
+                  index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="shrink-0 font-medium text-gray-500 w-12">p. {hit.pageNumber}</span>
+                <span className="text-gray-700 truncate">
+                  {hit.before}
+                  <mark className="bg-yellow-200 text-gray-900 rounded-sm">{hit.match}</mark>
+                  {hit.after}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
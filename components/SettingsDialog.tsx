@@ -0,0 +1,212 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Switch } from '@/components/ui/switch';
+import { getProvider } from '@/lib/dictionaryProviders';
+import { getLanguageName } from '@/lib/languageDetection';
+import { ReaderSettings, ProviderSetting } from '@/lib/settings';
+import {
+  CacheEntry,
+  CacheStats,
+  getCacheStats,
+  listCacheEntries,
+  clearDefinitionCache,
+} from '@/lib/definitionCache';
+
+const CACHE_ENTRY_LIMIT = 50;
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
+
+interface SettingsDialogProps {
+  open: boolean;
+  settings: ReaderSettings;
+  onOpenChange: (open: boolean) => void;
+  onChange: (settings: ReaderSettings) => void;
+}
+
+function DefinitionCacheSection() {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+  const [showEntries, setShowEntries] = useState(false);
+  const [clearing, setClearing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const [nextStats, nextEntries] = await Promise.all([getCacheStats(), listCacheEntries(CACHE_ENTRY_LIMIT)]);
+    setStats(nextStats);
+    setEntries(nextEntries);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async () => {
+    setClearing(true);
+    try {
+      await clearDefinitionCache();
+      await refresh();
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <section>
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Definition cache</p>
+      {!stats ? (
+        <p className="text-xs text-gray-500">Loading…</p>
+      ) : (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-700">
+          <dt className="text-gray-500">Saved on this device</dt>
+          <dd>
+            {stats.persistedEntries === null
+              ? 'unavailable'
+              : `${stats.persistedEntries} / ${stats.persistedLimit}`}
+          </dd>
+          <dt className="text-gray-500">In memory</dt>
+          <dd>
+            {stats.memoryEntries} / {stats.memoryLimit}
+          </dd>
+          <dt className="text-gray-500">Not-found entries</dt>
+          <dd>{stats.notFoundEntries}</dd>
+          <dt className="text-gray-500">Hit rate (this session)</dt>
+          <dd>{lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}% of ${lookups}` : '—'}</dd>
+          <dt className="text-gray-500">Evicted</dt>
+          <dd>{stats.evictions}</dd>
+        </dl>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => setShowEntries((s) => !s)}
+          disabled={!entries || entries.length === 0}
+          className="px-3 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+        >
+          {showEntries ? 'Hide entries' : 'Show entries'}
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={clearing}
+          className="px-3 py-1 text-xs rounded border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-40"
+        >
+          {clearing ? 'Clearing…' : 'Clear cache'}
+        </button>
+      </div>
+
+      {showEntries && entries && entries.length > 0 && (
+        <ul className="mt-2 max-h-40 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded text-xs">
+          {entries.map((entry) => (
+            <li key={entry.key} className="flex items-center gap-2 px-2 py-1">
+              <span className="font-medium text-gray-800 flex-1 truncate">{entry.word}</span>
+              <span className="text-gray-500">
+                {getProvider(entry.providerId)?.name || entry.providerId} · {entry.language}
+              </span>
+              <span className={entry.data ? 'text-green-600' : 'text-gray-400'}>
+                {entry.data ? 'found' : 'not found'}
+              </span>
+              <span className="text-gray-400 w-16 text-right">{formatAge(entry.lastAccess)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default function SettingsDialog({ open, settings, onOpenChange, onChange }: SettingsDialogProps) {
+  const updateProviders = (providers: ProviderSetting[]) => {
+    onChange({ ...settings, providers });
+  };
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= settings.providers.length) return;
+    const providers = [...settings.providers];
+    [providers[index], providers[target]] = [providers[target], providers[index]];
+    updateProviders(providers);
+  };
+
+  const toggle = (index: number, enabled: boolean) => {
+    updateProviders(settings.providers.map((p, i) => (i === index ? { ...p, enabled } : p)));
+  };
+
+  const enabledCount = settings.providers.filter((p) => p.enabled).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Dictionaries are tried from top to bottom. If one doesn't know a word, the next one is asked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section>
+          <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Dictionaries</p>
+          <ol className="space-y-2">
+            {settings.providers.map((setting, index) => {
+              const provider = getProvider(setting.id);
+              if (!provider) return null;
+              return (
+                <li
+                  key={setting.id}
+                  className="flex items-center gap-3 rounded border border-gray-200 px-3 py-2"
+                >
+                  <span className="text-xs text-gray-400 w-4">{index + 1}.</span>
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium ${setting.enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {provider.name}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">{provider.description}</p>
+                    <p className="text-xs text-gray-400 truncate">
+                      {provider.languages
+                        ? provider.languages.map(getLanguageName).join(', ')
+                        : 'Any language'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="px-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      aria-label={`Move ${provider.name} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === settings.providers.length - 1}
+                      className="px-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      aria-label={`Move ${provider.name} down`}
+                    >
+                      ↓
+                    </button>
+                  </div>
+                  <Switch
+                    checked={setting.enabled}
+                    onCheckedChange={(checked) => toggle(index, checked)}
+                    aria-label={`Use ${provider.name}`}
+                  />
+                </li>
+              );
+            })}
+          </ol>
+          {enabledCount === 0 && (
+            <p className="mt-2 text-xs text-red-600">Enable at least one dictionary to look up words.</p>
+          )}
+        </section>
+
+        {open && <DefinitionCacheSection />}
+      </DialogContent>
+    </Dialog>
+  );
+}
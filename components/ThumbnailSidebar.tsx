@@ -0,0 +1,205 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { renderThumbnail, getCachedThumbnail, THUMBNAIL_WIDTH } from '@/lib/thumbnailCache';
+import { isRenderingCancelled } from '@/lib/pdfPageRenderer';
+
+// Placeholder height until a thumbnail is rendered (roughly A4/Letter)
+const PLACEHOLDER_HEIGHT = Math.round(THUMBNAIL_WIDTH * 1.3);
+
+interface ThumbnailSidebarProps {
+  pdfDoc: any;
+  numPages: number;
+  currentPage: number;
+  // True while the main page renders; thumbnail work is cancelled and waits
+  paused: boolean;
+  onSelectPage: (page: number) => void;
+}
+
+export default function ThumbnailSidebar({
+  pdfDoc,
+  numPages,
+  currentPage,
+  paused,
+  onSelectPage,
+}: ThumbnailSidebarProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<Map<number, HTMLButtonElement>>(new Map());
+  const visibleRef = useRef<Set<number>>(new Set());
+  const failedRef = useRef<Set<number>>(new Set());
+  const renderTaskRef = useRef<any>(null);
+  const busyRef = useRef(false);
+  const unmountedRef = useRef(false);
+  const pdfDocRef = useRef(pdfDoc);
+  const pausedRef = useRef(paused);
+  const currentPageRef = useRef(currentPage);
+  currentPageRef.current = currentPage;
+
+  const [thumbs, setThumbs] = useState<Record<number, string>>({});
+
+  const hasThumb = (pageNumber: number) => !!getCachedThumbnail(pdfDocRef.current, pageNumber);
+
+  // Render visible thumbnails one at a time, nearest to the current page first
+  const pump = useCallback(async () => {
+    const doc = pdfDocRef.current;
+    if (busyRef.current || pausedRef.current || unmountedRef.current || !doc) return;
+
+    const candidates = Array.from(visibleRef.current).filter(
+      (pageNumber) => !hasThumb(pageNumber) && !failedRef.current.has(pageNumber)
+    );
+    if (candidates.length === 0) return;
+
+    candidates.sort(
+      (a, b) => Math.abs(a - currentPageRef.current) - Math.abs(b - currentPageRef.current)
+    );
+    const pageNumber = candidates[0];
+
+    busyRef.current = true;
+    try {
+      const url = await renderThumbnail(doc, pageNumber, (task) => {
+        renderTaskRef.current = task;
+      });
+      if (!unmountedRef.current && doc === pdfDocRef.current) {
+        setThumbs((prev) => ({ ...prev, [pageNumber]: url }));
+      }
+    } catch (err) {
+      if (!isRenderingCancelled(err)) {
+        console.error(`[Thumbnails] Failed to render thumbnail for page ${pageNumber}:`, err);
+        failedRef.current.add(pageNumber);
+      }
+    } finally {
+      busyRef.current = false;
+    }
+
+    if (!pausedRef.current) {
+      pump();
+    }
+  }, []);
+
+  // New document: start from whatever is already cached for it
+  useEffect(() => {
+    pdfDocRef.current = pdfDoc;
+    failedRef.current.clear();
+
+    const cached: Record<number, string> = {};
+    if (pdfDoc) {
+      for (let pageNumber = 1; pageNumber <= numPages; pageNumber++) {
+        const url = getCachedThumbnail(pdfDoc, pageNumber);
+        if (url) cached[pageNumber] = url;
+      }
+    }
+    setThumbs(cached);
+    pump();
+  }, [pdfDoc, numPages, pump]);
+
+  // Step aside while the main page renders
+  useEffect(() => {
+    pausedRef.current = paused;
+    if (paused) {
+      if (renderTaskRef.current) {
+        try {
+          renderTaskRef.current.cancel();
+        } catch (e) {
+          // Ignore cancellation errors
+        }
+        renderTaskRef.current = null;
+      }
+    } else {
+      pump();
+    }
+  }, [paused, pump]);
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      if (renderTaskRef.current) {
+        try {
+          renderTaskRef.current.cancel();
+        } catch (e) {
+          // Ignore cancellation errors
+        }
+        renderTaskRef.current = null;
+      }
+    };
+  }, []);
+
+  // Only thumbnails scrolled into the sidebar are rendered
+  useEffect(() => {
+    const scroller = scrollerRef.current;
+    if (!scroller) return;
+
+    visibleRef.current.clear();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const pageNumber = Number((entry.target as HTMLElement).dataset.page);
+          if (entry.isIntersecting) {
+            visibleRef.current.add(pageNumber);
+          } else {
+            visibleRef.current.delete(pageNumber);
+          }
+        }
+        pump();
+      },
+      { root: scroller, rootMargin: '200px 0px' }
+    );
+
+    itemRefs.current.forEach((el) => observer.observe(el));
+    return () => observer.disconnect();
+  }, [pdfDoc, numPages, pump]);
+
+  // Keep the current page's thumbnail in view
+  useEffect(() => {
+    itemRefs.current.get(currentPage)?.scrollIntoView({ block: 'nearest' });
+  }, [currentPage]);
+
+  const items = [];
+  for (let pageNumber = 1; pageNumber <= numPages; pageNumber++) {
+    const url = thumbs[pageNumber];
+    const isCurrent = pageNumber === currentPage;
+    items.push(
+      <button
+        key={pageNumber}
+        ref={(el) => {
+          if (el) itemRefs.current.set(pageNumber, el);
+          else itemRefs.current.delete(pageNumber);
+        }}
+        data-page={pageNumber}
+        onClick={() => onSelectPage(pageNumber)}
+        className="flex flex-col items-center gap-1 w-full group"
+        aria-label={`Go to page ${pageNumber}`}
+        aria-current={isCurrent ? 'page' : undefined}
+      >
+        <div
+          className={`bg-white shadow-sm rounded-sm overflow-hidden border-2 transition-colors ${
+            isCurrent ? 'border-blue-500' : 'border-transparent group-hover:border-gray-300'
+          }`}
+          style={{ width: THUMBNAIL_WIDTH }}
+        >
+          {url ? (
+            <img src={url} alt={`Page ${pageNumber}`} className="block w-full" draggable={false} />
+          ) : (
+            <div
+              className="flex items-center justify-center text-xs text-gray-400"
+              style={{ height: PLACEHOLDER_HEIGHT }}
+            >
+              {failedRef.current.has(pageNumber) ? '—' : '…'}
+            </div>
+          )}
+        </div>
+        <span className={`text-xs ${isCurrent ? 'font-semibold text-blue-600' : 'text-gray-600'}`}>
+          {pageNumber}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <aside
+      ref={scrollerRef}
+      className="w-40 shrink-0 max-h-[80vh] overflow-y-auto bg-gray-100 border-r border-gray-200 p-3 space-y-3"
+      aria-label="Page thumbnails"
+    >
+      {items}
+    </aside>
+  );
+}
@@ -1,21 +1,37 @@
 import { useCallback, useState } from 'react';
+import { OpenedFile } from '@/types/pdf';
 
 interface UploadZoneProps {
-  onFileSelect: (file: File) => void;
+  // Handles are passed when the browser supports the File System Access API,
+  // so the files can be reopened from the recent documents list
+  onFilesSelect: (files: OpenedFile[]) => void;
 }
 
-export default function UploadZone({ onFileSelect }: UploadZoneProps) {
+const PICKER_OPTIONS = {
+  multiple: true,
+  types: [{ description: 'PDF documents', accept: { 'application/pdf': ['.pdf'] } }],
+};
+
+function isPdf(file: File): boolean {
+  return file.type.includes('pdf');
+}
+
+export default function UploadZone({ onFilesSelect }: UploadZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
 
-  const handleFile = useCallback(
-    (file: File) => {
-      if (!file.type.includes('pdf')) {
+  const handleFiles = useCallback(
+    (opened: OpenedFile[]) => {
+      const pdfs = opened.filter((o) => isPdf(o.file));
+      if (pdfs.length === 0) {
         alert('Please upload a valid PDF file');
         return;
       }
-      onFileSelect(file);
+      if (pdfs.length < opened.length) {
+        console.warn('[UploadZone] Skipped', opened.length - pdfs.length, 'non-PDF file(s)');
+      }
+      onFilesSelect(pdfs);
     },
-    [onFileSelect]
+    [onFilesSelect]
   );
 
   const handleDrop = useCallback(
@@ -24,12 +40,35 @@ export default function UploadZone({ onFileSelect }: UploadZoneProps) {
       e.stopPropagation();
       setIsDragging(false);
 
-      const files = e.dataTransfer.files;
-      if (files.length > 0) {
-        handleFile(files[0]);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length === 0) return;
+
+      // Handles have to be requested while the drop event is being handled
+      const items: any[] = Array.from(e.dataTransfer.items || []).filter((item) => item.kind === 'file');
+      if (items.length === files.length && items.every((item) => typeof item.getAsFileSystemHandle === 'function')) {
+        const handlePromises: Promise<any>[] = items.map((item) => item.getAsFileSystemHandle().catch(() => null));
+        Promise.all(handlePromises)
+          .then((handles) =>
+            Promise.all(
+              files.map(async (file, i) => {
+                const handle = handles[i];
+                return handle?.kind === 'file'
+                  ? { file: await handle.getFile(), handle }
+                  : { file, handle: null };
+              })
+            )
+          )
+          .then(handleFiles)
+          .catch((err) => {
+            console.warn('[UploadZone] Could not get file handles:', err);
+            handleFiles(files.map((file) => ({ file, handle: null })));
+          });
+        return;
       }
+
+      handleFiles(files.map((file) => ({ file, handle: null })));
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -48,15 +87,28 @@ export default function UploadZone({ onFileSelect }: UploadZoneProps) {
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(Array.from(files).map((file) => ({ file, handle: null })));
       }
+      // Allow choosing the same file again later
+      e.target.value = '';
     },
-    [handleFile]
+    [handleFiles]
   );
 
-  const handleClick = useCallback(() => {
+  const handleClick = useCallback(async () => {
+    if (window.showOpenFilePicker) {
+      try {
+        const handles = await window.showOpenFilePicker(PICKER_OPTIONS);
+        handleFiles(await Promise.all(handles.map(async (handle) => ({ file: await handle.getFile(), handle }))));
+      } catch (err) {
+        if (!(err instanceof DOMException && err.name === 'AbortError')) {
+          console.error('[UploadZone] File picker failed:', err);
+        }
+      }
+      return;
+    }
     document.getElementById('pdf-file-input')?.click();
-  }, []);
+  }, [handleFiles]);
 
   return (
     <section className="mb-8">
@@ -75,13 +127,14 @@ export default function UploadZone({ onFileSelect }: UploadZoneProps) {
           id="pdf-file-input"
           type="file"
           accept="application/pdf,.pdf"
+          multiple
           onChange={handleInputChange}
           className="hidden"
         />
         <div className="mb-4 text-4xl">📤</div>
         <h2 className="text-lg font-semibold text-gray-900 mb-2">Upload PDF</h2>
         <p className="text-gray-600 text-sm mb-4">
-          Click to select or drag and drop your PDF file here
+          Click to select or drag and drop PDF files here (several open in tabs)
         </p>
         <div className="inline-block bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-6 rounded-lg transition-colors pointer-events-none">
           Choose File
@@ -0,0 +1,288 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { VocabularyEntry } from '@/types/pdf';
+import {
+  listVocabulary,
+  saveVocabularyEntry,
+  deleteVocabularyEntry,
+  parseTags,
+  matchesVocabularyQuery,
+} from '@/lib/vocabulary';
+import { getLanguageName } from '@/lib/languageDetection';
+
+interface VocabularyPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * The sentence with the saved word in bold
+ */
+function ContextSentence({ sentence, word }: { sentence: string; word: string }) {
+  const at = sentence.toLowerCase().indexOf(word.toLowerCase());
+  if (at === -1) {
+    return <>{sentence}</>;
+  }
+  return (
+    <>
+      {sentence.slice(0, at)}
+      <strong className="font-semibold text-gray-800">{sentence.slice(at, at + word.length)}</strong>
+      {sentence.slice(at + word.length)}
+    </>
+  );
+}
+
+interface EntryEditorProps {
+  entry: VocabularyEntry;
+  onSave: (entry: VocabularyEntry) => Promise<void>;
+  onCancel: () => void;
+}
+
+function EntryEditor({ entry, onSave, onCancel }: EntryEditorProps) {
+  const [word, setWord] = useState(entry.word);
+  const [definition, setDefinition] = useState(entry.definition);
+  const [sentence, setSentence] = useState(entry.sentence || '');
+  const [tags, setTags] = useState(entry.tags.join(', '));
+  const [notes, setNotes] = useState(entry.notes);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!word.trim()) return;
+    setSaving(true);
+    try {
+      await onSave({
+        ...entry,
+        word: word.trim(),
+        definition: definition.trim(),
+        sentence: sentence.trim() || null,
+        tags: parseTags(tags),
+        notes: notes.trim(),
+        updatedAt: Date.now(),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs text-gray-500">
+        Word
+        <input value={word} onChange={(e) => setWord(e.target.value)} className={inputClass} />
+      </label>
+      <label className="block text-xs text-gray-500">
+        Definition
+        <textarea value={definition} onChange={(e) => setDefinition(e.target.value)} rows={2} className={inputClass} />
+      </label>
+      <label className="block text-xs text-gray-500">
+        Context sentence
+        <textarea value={sentence} onChange={(e) => setSentence(e.target.value)} rows={2} className={inputClass} />
+      </label>
+      <label className="block text-xs text-gray-500">
+        Tags (comma separated)
+        <input value={tags} onChange={(e) => setTags(e.target.value)} className={inputClass} />
+      </label>
+      <label className="block text-xs text-gray-500">
+        Notes
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} className={inputClass} />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !word.trim()}
+          className="px-3 py-1 text-xs rounded bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function VocabularyPanel({ open, onOpenChange }: VocabularyPanelProps) {
+  const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await listVocabulary());
+      setError(null);
+    } catch (err) {
+      console.error('[VocabularyPanel] Failed to load vocabulary:', err);
+      setError('Your vocabulary could not be loaded (IndexedDB unavailable).');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Words may have been saved from the popup since the panel was last open
+  useEffect(() => {
+    if (open) {
+      refresh();
+    } else {
+      setEditingId(null);
+    }
+  }, [open, refresh]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(entries.flatMap((e) => e.tags))).sort(),
+    [entries]
+  );
+
+  const visible = useMemo(
+    () =>
+      entries.filter(
+        (e) => matchesVocabularyQuery(e, query) && (!activeTag || e.tags.includes(activeTag))
+      ),
+    [entries, query, activeTag]
+  );
+
+  const handleSave = async (entry: VocabularyEntry) => {
+    try {
+      await saveVocabularyEntry(entry);
+      setEntries((prev) => prev.map((e) => (e.id === entry.id ? entry : e)));
+      setEditingId(null);
+    } catch (err) {
+      console.error('[VocabularyPanel] Failed to save entry:', err);
+      window.alert('Could not save your changes.');
+    }
+  };
+
+  const handleDelete = async (entry: VocabularyEntry) => {
+    if (!window.confirm(`Delete "${entry.word}" from your vocabulary?`)) return;
+    try {
+      await deleteVocabularyEntry(entry.id);
+      setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      console.error('[VocabularyPanel] Failed to delete entry:', err);
+      window.alert('Could not delete the entry.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Vocabulary</DialogTitle>
+          <DialogDescription>
+            Words you saved from the definition popup, with the sentence they appeared in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search words, definitions, sentences, tags…"
+            className="w-full px-3 py-1.5 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Search vocabulary"
+          />
+          {allTags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 mr-1">Tags:</span>
+              {[null, ...allTags].map((tag) => (
+                <button
+                  key={tag ?? '__all'}
+                  onClick={() => setActiveTag(tag)}
+                  className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                    activeTag === tag
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {tag ?? 'All'}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            {loading
+              ? 'Loading…'
+              : error
+                ? <span className="text-red-600">{error}</span>
+                : `${visible.length} of ${entries.length} word${entries.length === 1 ? '' : 's'}`}
+          </p>
+        </div>
+
+        <ul className="max-h-[55vh] overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+          {!loading && entries.length === 0 && !error && (
+            <li className="p-4 text-sm text-gray-500">
+              No saved words yet. Click a word in a PDF and choose ☆ Save in the popup.
+            </li>
+          )}
+          {visible.map((entry) => (
+            <li key={entry.id} className="p-3">
+              {editingId === entry.id ? (
+                <EntryEditor entry={entry} onSave={handleSave} onCancel={() => setEditingId(null)} />
+              ) : (
+                <div className="space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-sm">
+                      <span className="font-semibold text-gray-900">{entry.word}</span>
+                      {entry.partOfSpeech && (
+                        <span className="ml-2 text-xs italic text-gray-500">{entry.partOfSpeech}</span>
+                      )}
+                      {entry.language && (
+                        <span className="ml-2 text-xs text-gray-400">{getLanguageName(entry.language)}</span>
+                      )}
+                    </p>
+                    <div className="flex gap-1 shrink-0">
+                      <button
+                        onClick={() => setEditingId(entry.id)}
+                        className="px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="px-2 py-0.5 text-xs rounded border border-red-300 text-red-600 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-700">{entry.definition}</p>
+                  {entry.sentence && (
+                    <p className="text-xs text-gray-600 italic border-l-2 border-gray-200 pl-2">
+                      <ContextSentence sentence={entry.sentence} word={entry.word} />
+                    </p>
+                  )}
+                  {entry.notes && <p className="text-xs text-gray-600">📝 {entry.notes}</p>}
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-gray-400">
+                    {entry.documentName && (
+                      <span>
+                        {entry.documentName}
+                        {entry.pageNumber > 0 ? ` · p. ${entry.pageNumber}` : ''}
+                      </span>
+                    )}
+                    <span>· {new Date(entry.createdAt).toLocaleDateString()}</span>
+                    {entry.tags.map((tag) => (
+                      <span key={tag} className="px-1.5 rounded bg-gray-100 text-gray-600">
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
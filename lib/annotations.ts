@@ -0,0 +1,138 @@
+import { Annotation, AnnotationKind, HighlightRange } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone, createRecordId } from '@/lib/indexedDb';
+import { TextLayerHighlight } from '@/lib/textHighlighter';
+
+/**
+ * Highlights and sticky notes
+ * Stored in IndexedDB per document (PDF.js fingerprint) and drawn onto the
+ * text layer through the same highlighter as search hits.
+ */
+
+const STORE = 'annotations';
+
+export interface AnnotationColor {
+  id: string;
+  label: string;
+  swatch: string; // CSS colour for buttons and the sidebar
+}
+
+export const ANNOTATION_COLORS: AnnotationColor[] = [
+  { id: 'yellow', label: 'Yellow', swatch: '#facc15' },
+  { id: 'green', label: 'Green', swatch: '#4ade80' },
+  { id: 'blue', label: 'Blue', swatch: '#60a5fa' },
+  { id: 'pink', label: 'Pink', swatch: '#f472b6' },
+  { id: 'orange', label: 'Orange', swatch: '#fb923c' },
+];
+
+export const DEFAULT_ANNOTATION_COLOR = 'yellow';
+
+export function getAnnotationColor(id: string): AnnotationColor {
+  return ANNOTATION_COLORS.find((c) => c.id === id) || ANNOTATION_COLORS[0];
+}
+
+export function createAnnotation(
+  documentKey: string,
+  pageNumber: number,
+  kind: AnnotationKind,
+  color: string,
+  ranges: HighlightRange[],
+  text: string
+): Annotation {
+  const now = Date.now();
+  return {
+    id: createRecordId(),
+    documentKey,
+    pageNumber,
+    kind,
+    color,
+    ranges,
+    text: text.replace(/\s+/g, ' ').trim(),
+    note: '',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Reading order: by page, then by where the annotation starts on the page
+ */
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  const position = (a: Annotation) => a.ranges[0] || { itemIndex: 0, start: 0 };
+  return [...annotations].sort(
+    (a, b) =>
+      a.pageNumber - b.pageNumber ||
+      position(a).itemIndex - position(b).itemIndex ||
+      position(a).start - position(b).start
+  );
+}
+
+export async function listAnnotations(documentKey: string): Promise<Annotation[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('documentKey');
+  const annotations = await requestToPromise<Annotation[]>(index.getAll(documentKey));
+  return sortAnnotations(annotations);
+}
+
+export async function saveAnnotation(annotation: Annotation): Promise<void> {
+  console.log('[Annotations] Saving', annotation.kind, 'on page', annotation.pageNumber);
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(annotation);
+  await transactionDone(tx);
+}
+
+export async function deleteAnnotation(id: string): Promise<void> {
+  console.log('[Annotations] Deleting', id);
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Character offset of a DOM position within a text span. Counting through a
+ * range keeps it right when earlier highlights have split the span's text.
+ */
+function offsetWithin(div: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(div);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * Map a browser selection onto the text layer items it covers.
+ */
+export function rangesFromSelection(selection: Range, textDivs: HTMLElement[]): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+
+  textDivs.forEach((div, itemIndex) => {
+    if (!selection.intersectsNode(div)) return;
+
+    const length = div.textContent?.length || 0;
+    const start = div.contains(selection.startContainer)
+      ? offsetWithin(div, selection.startContainer, selection.startOffset)
+      : 0;
+    const end = div.contains(selection.endContainer)
+      ? offsetWithin(div, selection.endContainer, selection.endOffset)
+      : length;
+
+    if (end > start) {
+      ranges.push({ itemIndex, start, end });
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * How an annotation is drawn on the text layer (see .textLayer .annotation-* styles)
+ */
+export function toTextLayerHighlight(annotation: Annotation, selected: boolean): TextLayerHighlight {
+  return {
+    ranges: annotation.ranges,
+    selected,
+    className: `annotation annotation-${annotation.color}${annotation.kind === 'note' ? ' note' : ''}`,
+    title: annotation.note || undefined,
+  };
+}
@@ -0,0 +1,234 @@
+import { DefinitionData } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+
+/**
+ * Two-tier definition cache
+ * A small in-memory LRU in front of an IndexedDB store, keyed by provider,
+ * language and normalized word. Found entries are kept until evicted; "not found" answers
+ * expire so words added to a dictionary later are picked up.
+ */
+
+const STORE = 'definitions';
+
+export const MEMORY_CACHE_LIMIT = 300;
+export const PERSISTED_CACHE_LIMIT = 5000;
+export const NOT_FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CacheEntry {
+  key: string;
+  providerId: string;
+  language: string;
+  word: string;
+  // null records that the provider doesn't know the word
+  data: DefinitionData | null;
+  storedAt: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  memoryEntries: number;
+  memoryLimit: number;
+  persistedEntries: number | null; // null when IndexedDB is unavailable
+  persistedLimit: number;
+  notFoundEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+const memory = new Map<string, CacheEntry>();
+const counters = { hits: 0, misses: 0, evictions: 0 };
+
+function cacheKey(providerId: string, language: string, word: string) {
+  return `${providerId}:${language}:${word}`;
+}
+
+function isExpired(entry: CacheEntry, now: number) {
+  return entry.data === null && now - entry.storedAt > NOT_FOUND_TTL_MS;
+}
+
+function rememberInMemory(entry: CacheEntry) {
+  // Map keeps insertion order, so re-inserting moves the entry to the MRU end
+  memory.delete(entry.key);
+  memory.set(entry.key, entry);
+  while (memory.size > MEMORY_CACHE_LIMIT) {
+    const oldest = memory.keys().next().value as string;
+    memory.delete(oldest);
+  }
+}
+
+async function readPersisted(key: string): Promise<CacheEntry | undefined> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    return await requestToPromise<CacheEntry | undefined>(store.get(key));
+  } catch (err) {
+    console.warn('[DefinitionCache] IndexedDB read failed:', err);
+    return undefined;
+  }
+}
+
+async function writePersisted(entry: CacheEntry) {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[DefinitionCache] IndexedDB write failed:', err);
+  }
+}
+
+async function deletePersisted(key: string) {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(key);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[DefinitionCache] IndexedDB delete failed:', err);
+  }
+}
+
+/**
+ * Drop the least recently used entries once the store grows past its limit.
+ */
+async function evictPersisted() {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const count = await requestToPromise(store.count());
+    let excess = count - PERSISTED_CACHE_LIMIT;
+    if (excess <= 0) return;
+
+    console.log(`[DefinitionCache] Evicting ${excess} least recently used entries`);
+    const cursorRequest = store.index('lastAccess').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      memory.delete((cursor.value as CacheEntry).key);
+      counters.evictions++;
+      excess--;
+      cursor.continue();
+    };
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[DefinitionCache] Eviction failed:', err);
+  }
+}
+
+/**
+ * Cached answer of a provider for a word: the entry (with `data` null for a
+ * known "not found"), or undefined when the provider has to be asked.
+ */
+export async function getCachedDefinition(
+  providerId: string,
+  language: string,
+  word: string
+): Promise<CacheEntry | undefined> {
+  const key = cacheKey(providerId, language, word);
+  const now = Date.now();
+
+  let entry = memory.get(key);
+  if (!entry) {
+    entry = await readPersisted(key);
+  }
+
+  if (!entry) {
+    counters.misses++;
+    return undefined;
+  }
+
+  if (isExpired(entry, now)) {
+    console.log('[DefinitionCache] Not-found entry expired:', key);
+    memory.delete(key);
+    deletePersisted(key);
+    counters.misses++;
+    return undefined;
+  }
+
+  counters.hits++;
+  const touched = { ...entry, lastAccess: now };
+  rememberInMemory(touched);
+  writePersisted(touched);
+  return touched;
+}
+
+export async function setCachedDefinition(
+  providerId: string,
+  language: string,
+  word: string,
+  data: DefinitionData | null
+) {
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key: cacheKey(providerId, language, word),
+    providerId,
+    language,
+    word,
+    data,
+    storedAt: now,
+    lastAccess: now,
+  };
+  rememberInMemory(entry);
+  await writePersisted(entry);
+  await evictPersisted();
+}
+
+/**
+ * Most recently used entries first (persisted ones, or the memory tier when
+ * IndexedDB is unavailable).
+ */
+export async function listCacheEntries(limit: number = 100): Promise<CacheEntry[]> {
+  let entries: CacheEntry[];
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    entries = await requestToPromise<CacheEntry[]>(store.getAll());
+  } catch (err) {
+    entries = Array.from(memory.values());
+  }
+  return entries.sort((a, b) => b.lastAccess - a.lastAccess).slice(0, limit);
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  let persistedEntries: number | null = null;
+  let notFoundEntries = 0;
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    const entries = await requestToPromise<CacheEntry[]>(store.getAll());
+    persistedEntries = entries.length;
+    notFoundEntries = entries.filter((e) => e.data === null).length;
+  } catch (err) {
+    notFoundEntries = Array.from(memory.values()).filter((e) => e.data === null).length;
+  }
+
+  return {
+    memoryEntries: memory.size,
+    memoryLimit: MEMORY_CACHE_LIMIT,
+    persistedEntries,
+    persistedLimit: PERSISTED_CACHE_LIMIT,
+    notFoundEntries,
+    ...counters,
+  };
+}
+
+export async function clearDefinitionCache() {
+  console.log('[DefinitionCache] Clearing cache');
+  memory.clear();
+  counters.hits = 0;
+  counters.misses = 0;
+  counters.evictions = 0;
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[DefinitionCache] IndexedDB clear failed:', err);
+  }
+}
@@ -1,94 +1,225 @@
 import { DefinitionData } from '@/types/pdf';
+import { DictionaryProvider, DEFAULT_PROVIDER_ORDER, getProvider, supportsLanguage } from '@/lib/dictionaryProviders';
+import { getCachedDefinition, setCachedDefinition } from '@/lib/definitionCache';
+import { getLemmaCandidates } from '@/lib/lemmatizer';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languageDetection';
 
-const cache = new Map<string, DefinitionData>();
+/**
+ * Split selected text into words. Hyphens and apostrophes inside a word are
+ * kept so compounds ("well-known") and contractions ("o'clock") stay whole.
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{M}\p{N}'\u2019\u02BC\-\u2010\u2011]+/u)
+    .map((w) => w.replace(/^['\u2019\u02BC\-\u2010\u2011]+|['\u2019\u02BC\-\u2010\u2011]+$/gu, ''))
+    .filter((w) => w.length > 0);
+}
+
+export const MAX_PHRASE_WORDS = 5;
+
+/**
+ * Compose accents (NFC), unify apostrophes and hyphens, lowercase, drop
+ * anything that isn't a letter in any script, and trim leading/trailing
+ * punctuation. Null if nothing usable is left.
+ */
+function cleanWord(word: string): string | null {
+  const cleaned = word
+    .normalize('NFC')
+    .toLowerCase()
+    .trim()
+    .replace(/[\u2018\u2019\u02BC]/g, "'")
+    .replace(/[\u2010\u2011]/g, '-')
+    .replace(/[^\p{L}\p{M}'-]/gu, '')
+    .replace(/^['-]+|['-]+$/g, '');
+
+  // Letters, optionally joined by single hyphens/apostrophes
+  return /^\p{L}[\p{L}\p{M}]*(?:['-]\p{L}[\p{L}\p{M}]*)*$/u.test(cleaned) ? cleaned : null;
+}
 
 /**
- * Normalize word for lookup: remove punctuation, lowercase, trim
+ * Normalize word for lookup (see cleanWord); single words need at least 2 characters
  */
 export function normalizeWord(word: string): string | null {
-  // Remove all non-alphabetic characters and convert to lowercase
-  const normalized = word.toLowerCase().trim().replace(/[^a-z]/g, '');
+  const normalized = cleanWord(word);
 
-  // Only proceed if word is at least 2 characters and contains only letters
-  if (normalized.length < 2 || !/^[a-z]+$/.test(normalized)) {
+  if (!normalized || normalized.length < 2) {
     return null;
   }
 
   return normalized;
 }
 
-export async function fetchDefinition(word: string): Promise<DefinitionData> {
-  const normalizedWord = normalizeWord(word);
-
-  if (!normalizedWord) {
-    console.log('[Dictionary] Invalid word, skipping:', word);
-    throw new Error('Invalid word format');
+/**
+ * Normalize a selection into its first MAX_PHRASE_WORDS words. Inside a
+ * phrase single letters are fine ("a priori"); a lone word still needs 2.
+ */
+export function normalizePhrase(text: string): string[] {
+  const words = splitWords(text)
+    .map(cleanWord)
+    .filter((w): w is string => !!w)
+    .slice(0, MAX_PHRASE_WORDS);
+
+  if (words.length === 1 && words[0].length < 2) {
+    return [];
   }
+  return words;
+}
 
-  console.log('[Dictionary] Fetching definition for:', normalizedWord);
-
-  // Check cache first
-  if (cache.has(normalizedWord)) {
-    console.log('[Dictionary] Using cached result for:', normalizedWord);
-    return cache.get(normalizedWord)!;
-  }
+interface ChainResult {
+  data: DefinitionData | null;
+  error: unknown;
+}
 
-  try {
-    const url = `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(normalizedWord)}`;
-    console.log('[Dictionary] Fetching from API:', url);
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      if (response.status === 404) {
-        console.log('[Dictionary] Word not found (404):', normalizedWord);
-        const errorData: DefinitionData = {
-          word: normalizedWord,
-          definition: `Meaning not available for '${normalizedWord}'`,
-          error: 'not_found',
-        };
-        cache.set(normalizedWord, errorData);
-        return errorData;
+/**
+ * Ask each provider in order for one exact headword.
+ */
+async function lookupInProviders(
+  word: string,
+  language: string,
+  providers: DictionaryProvider[]
+): Promise<ChainResult> {
+  let lastError: unknown = null;
+
+  for (const provider of providers) {
+    const cached = await getCachedDefinition(provider.id, language, word);
+    if (cached) {
+      if (cached.data) {
+        console.log(`[Dictionary] Using cached result from ${provider.id} for:`, word);
+        return { data: { ...cached.data, source: provider.name }, error: null };
       }
-      throw new Error(`HTTP error ${response.status}`);
+      console.log(`[Dictionary] Cached as not found in ${provider.id}:`, word);
+      continue;
     }
 
-    const data = await response.json();
-    console.log('[Dictionary] API response received for:', normalizedWord);
+    try {
+      const result = await provider.lookup(word, language);
 
-    const firstEntry = data[0];
-    const firstMeaning = firstEntry?.meanings?.[0];
-    const firstDefinition = firstMeaning?.definitions?.[0];
+      if (result) {
+        console.log('[Dictionary] Caching result for:', word, 'from', provider.id);
+        await setCachedDefinition(provider.id, language, word, result);
+        return { data: { ...result, source: provider.name }, error: null };
+      }
 
-    const phonetic = firstEntry?.phonetic ||
-                     firstEntry?.phonetics?.find((p: any) => p.text)?.text ||
-                     '';
+      console.log(`[Dictionary] Word not found in ${provider.id}:`, word);
+      await setCachedDefinition(provider.id, language, word, null);
+    } catch (error) {
+      // Failures aren't cached: the provider may know the word next time
+      console.error(`[Dictionary] Error fetching definition from ${provider.id}:`, error);
+      lastError = error;
+    }
+  }
 
-    const example = firstDefinition?.example || undefined;
-    const definition = firstDefinition?.definition || 'No definition available';
+  return { data: null, error: lastError };
+}
 
-    const result: DefinitionData = {
-      word: normalizedWord,
-      phonetic: phonetic || undefined,
-      definition,
-      example,
-    };
+/**
+ * Look up a normalized word: the surface form first, then candidate base
+ * forms ("studies" → "study").
+ */
+async function lookupWord(
+  normalizedWord: string,
+  language: string,
+  providers: DictionaryProvider[]
+): Promise<DefinitionData> {
+  const forms = [normalizedWord, ...getLemmaCandidates(normalizedWord, language)];
+  let lastError: unknown = null;
+
+  for (const form of forms) {
+    const { data, error } = await lookupInProviders(form, language, providers);
+    if (data) {
+      if (form !== normalizedWord) {
+        console.log(`[Dictionary] Found base form: ${normalizedWord} → ${form}`);
+        return { ...data, inflectedForm: normalizedWord };
+      }
+      return data;
+    }
+    lastError = lastError || error;
+  }
 
-    console.log('[Dictionary] Caching result for:', normalizedWord);
-    cache.set(normalizedWord, result);
-    return result;
-  } catch (error) {
-    console.error('[Dictionary] Error fetching definition:', error);
-    const errorData: DefinitionData = {
+  if (lastError) {
+    return {
       word: normalizedWord,
       definition: `Unable to fetch meaning for '${normalizedWord}'`,
-      error: error instanceof Error ? error.message : 'network_error',
+      error: lastError instanceof Error ? lastError.message : 'network_error',
     };
-    // Don't cache network errors, only cache 404s
-    return errorData;
   }
+
+  return {
+    word: normalizedWord,
+    definition: `Meaning not available for '${normalizedWord}'`,
+    error: 'not_found',
+  };
 }
 
-export function clearCache() {
-  cache.clear();
+/**
+ * Look a word or phrase up through the providers in order. A provider that
+ * doesn't know it (or fails) hands over to the next one; the first hit wins.
+ * For a phrase the whole phrase is tried first, then shorter runs of its
+ * words (longest first), and finally its first word on its own.
+ * Only providers that support the language are asked.
+ */
+export async function fetchDefinition(
+  text: string,
+  providerIds: string[] = DEFAULT_PROVIDER_ORDER,
+  language: string = DEFAULT_LANGUAGE
+): Promise<DefinitionData> {
+  const words = normalizePhrase(text);
+
+  if (words.length === 0) {
+    console.log('[Dictionary] Invalid word, skipping:', text);
+    throw new Error('Invalid word format');
+  }
+
+  const enabled = providerIds
+    .map((id) => getProvider(id))
+    .filter((p): p is DictionaryProvider => !!p);
+  const providers = enabled.filter((p) => supportsLanguage(p, language));
+
+  if (providers.length === 0) {
+    return {
+      word: words.join(' '),
+      definition:
+        enabled.length === 0
+          ? 'No dictionary is enabled. Turn one on in Settings.'
+          : `No enabled dictionary covers ${getLanguageName(language)}. Turn one on in Settings.`,
+      language,
+      error: 'no_provider',
+    };
+  }
+
+  console.log(
+    '[Dictionary] Fetching definition for:',
+    words.join(' '),
+    `(${language}) via`,
+    providers.map((p) => p.id)
+  );
+
+  const result = await lookupPhrase(words, language, providers);
+  return { ...result, language };
+}
+
+async function lookupPhrase(
+  words: string[],
+  language: string,
+  providers: DictionaryProvider[]
+): Promise<DefinitionData> {
+  if (words.length === 1) {
+    return lookupWord(words[0], language, providers);
+  }
+
+  for (let length = words.length; length >= 2; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const phrase = words.slice(start, start + length).join(' ');
+      const { data } = await lookupInProviders(phrase, language, providers);
+      if (data) {
+        console.log('[Dictionary] Found phrase:', phrase);
+        return { ...data, phraseWords: words };
+      }
+    }
+  }
+
+  // First real word: "a priori" falls back to "priori", not "a"
+  const fallback = words.find((w) => w.length >= 2) || words[0];
+  console.log('[Dictionary] No phrase matched, falling back to first word:', fallback);
+  return { ...(await lookupWord(fallback, language, providers)), phraseWords: words };
 }
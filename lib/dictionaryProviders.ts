@@ -0,0 +1,267 @@
+import { DefinitionData, Meaning, Phonetic, Sense } from '@/types/pdf';
+
+/**
+ * Dictionary providers
+ * Each provider looks up an already-normalized word in a language it
+ * supports and returns
+ * - a DefinitionData entry when found,
+ * - null when the word is not in that dictionary (the next provider is tried),
+ * - or throws on network/server errors.
+ */
+export interface DictionaryProvider {
+  id: string;
+  name: string;
+  description: string;
+  // Language codes the provider can look up, or null for any language
+  languages: string[] | null;
+  lookup: (word: string, language: string) => Promise<DefinitionData | null>;
+}
+
+export function supportsLanguage(provider: DictionaryProvider, language: string): boolean {
+  return !provider.languages || provider.languages.includes(language);
+}
+
+function uniqueStrings(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  return Array.from(new Set(values.filter((v): v is string => typeof v === 'string' && v.trim().length > 0)));
+}
+
+/**
+ * Convert the dictionaryapi.dev response (an array of entries) into one
+ * structured entry: meanings of the same part of speech are merged across
+ * entries, phonetics and source URLs are de-duplicated.
+ */
+export function parseApiEntries(word: string, data: any): DefinitionData {
+  const entries: any[] = Array.isArray(data) ? data : [];
+  const meaningsByPos = new Map<string, Meaning>();
+  const phonetics: Phonetic[] = [];
+  const seenPhonetics = new Set<string>();
+  const sourceUrls: string[] = [];
+
+  for (const entry of entries) {
+    for (const p of [{ text: entry?.phonetic }, ...(entry?.phonetics || [])]) {
+      const text = typeof p?.text === 'string' && p.text ? p.text : undefined;
+      const audio = typeof p?.audio === 'string' && p.audio ? p.audio : undefined;
+      const key = `${text || ''}|${audio || ''}`;
+      if ((text || audio) && !seenPhonetics.has(key)) {
+        seenPhonetics.add(key);
+        phonetics.push({ text, audio });
+      }
+    }
+
+    for (const url of uniqueStrings(entry?.sourceUrls)) {
+      if (!sourceUrls.includes(url)) sourceUrls.push(url);
+    }
+
+    for (const meaning of entry?.meanings || []) {
+      const partOfSpeech = meaning?.partOfSpeech || 'other';
+      const existing: Meaning = meaningsByPos.get(partOfSpeech) || {
+        partOfSpeech,
+        senses: [],
+        synonyms: [],
+        antonyms: [],
+      };
+
+      for (const d of meaning?.definitions || []) {
+        if (!d?.definition) continue;
+        const sense: Sense = {
+          definition: d.definition,
+          example: d.example || undefined,
+          synonyms: uniqueStrings(d.synonyms),
+          antonyms: uniqueStrings(d.antonyms),
+        };
+        existing.senses.push(sense);
+      }
+
+      existing.synonyms = uniqueStrings([...existing.synonyms, ...(meaning?.synonyms || [])]);
+      existing.antonyms = uniqueStrings([...existing.antonyms, ...(meaning?.antonyms || [])]);
+      meaningsByPos.set(partOfSpeech, existing);
+    }
+  }
+
+  const meanings = Array.from(meaningsByPos.values()).filter((m) => m.senses.length > 0);
+  const firstSense = meanings[0]?.senses[0];
+
+  return {
+    word,
+    phonetic: phonetics.find((p) => p.text)?.text,
+    definition: firstSense?.definition || 'No definition available',
+    example: firstSense?.example,
+    phonetics,
+    meanings,
+    sourceUrls,
+  };
+}
+
+/**
+ * Free Dictionary API (https://dictionaryapi.dev), English only
+ */
+export const freeDictionaryProvider: DictionaryProvider = {
+  id: 'free-dictionary-api',
+  name: 'Dictionary API',
+  description: 'Online English dictionary at dictionaryapi.dev',
+  languages: ['en'],
+  lookup: async (word: string) => {
+    const url = `https://api.dictionaryapi.dev/api/v2/entries/en/${encodeURIComponent(word)}`;
+    console.log('[Dictionary] Fetching from API:', url);
+
+    const response = await fetch(url);
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP error ${response.status}`);
+    }
+
+    const data = await response.json();
+    return parseApiEntries(word, data);
+  },
+};
+
+function htmlToText(html: string): string {
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() || '';
+}
+
+/**
+ * Convert a Wiktionary REST definition response for one language into a
+ * structured entry. Definitions come as HTML and are reduced to plain text.
+ */
+export function parseWiktionaryEntries(word: string, entries: any[], sourceUrl: string): DefinitionData {
+  const meaningsByPos = new Map<string, Meaning>();
+
+  for (const entry of entries) {
+    const partOfSpeech = (entry?.partOfSpeech || 'other').toLowerCase();
+    const existing: Meaning = meaningsByPos.get(partOfSpeech) || {
+      partOfSpeech,
+      senses: [],
+      synonyms: [],
+      antonyms: [],
+    };
+
+    for (const d of entry?.definitions || []) {
+      const definition = typeof d?.definition === 'string' ? htmlToText(d.definition) : '';
+      if (!definition) continue;
+      const example = Array.isArray(d.examples) && typeof d.examples[0] === 'string' ? htmlToText(d.examples[0]) : '';
+      existing.senses.push({ definition, example: example || undefined, synonyms: [], antonyms: [] });
+    }
+
+    meaningsByPos.set(partOfSpeech, existing);
+  }
+
+  const meanings = Array.from(meaningsByPos.values()).filter((m) => m.senses.length > 0);
+  const firstSense = meanings[0]?.senses[0];
+
+  return {
+    word,
+    definition: firstSense?.definition || 'No definition available',
+    example: firstSense?.example,
+    phonetics: [],
+    meanings,
+    sourceUrls: [sourceUrl],
+  };
+}
+
+/**
+ * English Wiktionary's definitions of words in many languages, with English
+ * glosses. Headwords are case-sensitive, so a lowercase miss retries with a
+ * capital letter (German nouns, proper names).
+ */
+export const wiktionaryProvider: DictionaryProvider = {
+  id: 'wiktionary',
+  name: 'Wiktionary',
+  description: 'Online multilingual dictionary at en.wiktionary.org',
+  languages: null,
+  lookup: async (word: string, language: string) => {
+    const forms = [word, word.charAt(0).toUpperCase() + word.slice(1)].filter((f, i, all) => all.indexOf(f) === i);
+
+    for (const form of forms) {
+      const url = `https://en.wiktionary.org/api/rest_v1/page/definition/${encodeURIComponent(form)}`;
+      console.log('[Dictionary] Fetching from Wiktionary:', url);
+
+      const response = await fetch(url);
+      if (response.status === 404) {
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error ${response.status}`);
+      }
+
+      const data = await response.json();
+      const entries = data?.[language];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        continue;
+      }
+
+      const result = parseWiktionaryEntries(word, entries, `https://en.wiktionary.org/wiki/${encodeURIComponent(form)}`);
+      if (result.meanings && result.meanings.length > 0) {
+        return result;
+      }
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Dictionary files served next to the app (see dictionary/README.md).
+ * Entries are sharded by language and first letter, e.g. /dictionary/en/a.json,
+ * and each shard maps a word to entries in the same shape dictionaryapi.dev
+ * returns. Shards are fetched once and kept in memory; a missing shard means
+ * not found.
+ */
+export function createLocalDictionaryProvider(baseUrl: string = '/dictionary'): DictionaryProvider {
+  const shards = new Map<string, Promise<Record<string, any[]>>>();
+
+  const loadShard = (language: string, letter: string) => {
+    const key = `${language}/${letter}`;
+    let shard = shards.get(key);
+    if (!shard) {
+      const url = `${baseUrl}/${encodeURIComponent(language)}/${encodeURIComponent(letter)}.json`;
+      console.log('[Dictionary] Loading local dictionary shard:', url);
+      shard = fetch(url).then(async (response) => {
+        if (response.status === 404) {
+          return {};
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP error ${response.status}`);
+        }
+        return response.json();
+      });
+      // Don't keep failed loads around, a later lookup may succeed
+      shard.catch(() => shards.delete(key));
+      shards.set(key, shard);
+    }
+    return shard;
+  };
+
+  return {
+    id: 'local-dictionary',
+    name: 'Local dictionary',
+    description: `Offline dictionary files served from ${baseUrl}`,
+    languages: null,
+    lookup: async (word: string, language: string) => {
+      const shard = await loadShard(language, word.charAt(0));
+      const entries = shard[word];
+      if (!Array.isArray(entries) || entries.length === 0) {
+        return null;
+      }
+      const result = parseApiEntries(word, entries);
+      return result.meanings && result.meanings.length > 0 ? result : null;
+    },
+  };
+}
+
+export const localDictionaryProvider = createLocalDictionaryProvider();
+
+export const DICTIONARY_PROVIDERS: DictionaryProvider[] = [
+  freeDictionaryProvider,
+  wiktionaryProvider,
+  localDictionaryProvider,
+];
+
+export const DEFAULT_PROVIDER_ORDER = DICTIONARY_PROVIDERS.map((p) => p.id);
+
+export function getProvider(id: string): DictionaryProvider | undefined {
+  return DICTIONARY_PROVIDERS.find((p) => p.id === id);
+}
@@ -0,0 +1,248 @@
+import { LookupHistoryEntry } from '@/types/pdf';
+import { getLanguageName } from '@/lib/languageDetection';
+import { downloadBlob } from '@/lib/utils';
+
+/**
+ * Lookup history exporters: CSV/TSV, Markdown glossary, Anki text import
+ * and a JSON backup that can be imported again.
+ */
+
+export type ExportFormat = 'csv' | 'tsv' | 'markdown' | 'anki' | 'json';
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  value: (entry: LookupHistoryEntry) => string;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'word', label: 'Word', value: (e) => e.word },
+  { id: 'definition', label: 'Definition', value: (e) => e.data.definition },
+  { id: 'partOfSpeech', label: 'Part of speech', value: (e) => e.data.meanings?.[0]?.partOfSpeech || '' },
+  { id: 'example', label: 'Example', value: (e) => e.data.example || '' },
+  { id: 'phonetic', label: 'Phonetic', value: (e) => e.data.phonetic || '' },
+  { id: 'sentence', label: 'Context sentence', value: (e) => e.sentence || '' },
+  { id: 'document', label: 'Document', value: (e) => e.documentName },
+  { id: 'page', label: 'Page', value: (e) => (e.pageNumber > 0 ? String(e.pageNumber) : '') },
+  { id: 'language', label: 'Language', value: (e) => e.language },
+  { id: 'source', label: 'Dictionary', value: (e) => e.data.source || '' },
+  { id: 'date', label: 'Looked up', value: (e) => new Date(e.lookedUpAt).toISOString() },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = ['word', 'definition', 'sentence', 'document', 'page'];
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: 'csv', label: 'CSV', extension: 'csv', mime: 'text/csv' },
+  { id: 'tsv', label: 'TSV', extension: 'tsv', mime: 'text/tab-separated-values' },
+  { id: 'markdown', label: 'Markdown glossary', extension: 'md', mime: 'text/markdown' },
+  { id: 'anki', label: 'Anki (text import)', extension: 'txt', mime: 'text/plain' },
+  { id: 'json', label: 'JSON backup', extension: 'json', mime: 'application/json' },
+];
+
+const BACKUP_FORMAT = 'padf-lookup-history';
+const BACKUP_VERSION = 1;
+const COLUMNS_STORAGE_KEY = 'padf:export-columns';
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function tsvField(value: string): string {
+  return value.replace(/[\t\r\n]+/g, ' ');
+}
+
+/**
+ * CSV (RFC 4180 quoting) or TSV (tabs/newlines flattened) with a header row
+ */
+export function toDelimited(entries: LookupHistoryEntry[], columnIds: string[], delimiter: ',' | '\t'): string {
+  const columns = columnIds
+    .map((id) => EXPORT_COLUMNS.find((c) => c.id === id))
+    .filter((c): c is ExportColumn => !!c);
+  const field = delimiter === ',' ? csvField : tsvField;
+
+  const rows = [columns.map((c) => field(c.label)).join(delimiter)];
+  for (const entry of entries) {
+    rows.push(columns.map((c) => field(c.value(entry))).join(delimiter));
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+function markdownText(value: string): string {
+  return value.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Glossary grouped by document, one alphabetical list per document. A word
+ * looked up several times in a document is listed once, with its first sentence.
+ */
+export function toMarkdownGlossary(entries: LookupHistoryEntry[]): string {
+  const byDocument = new Map<string, LookupHistoryEntry[]>();
+  for (const entry of entries) {
+    const name = entry.documentName || 'Other lookups';
+    const list = byDocument.get(name) || [];
+    if (!list.some((e) => e.word === entry.word && e.language === entry.language)) {
+      list.push(entry);
+    }
+    byDocument.set(name, list);
+  }
+
+  const lines = ['# Glossary', ''];
+  const documents = Array.from(byDocument.keys()).sort((a, b) => a.localeCompare(b));
+
+  for (const name of documents) {
+    lines.push(`## ${markdownText(name)}`, '');
+    const list = byDocument.get(name)!.sort((a, b) => a.word.localeCompare(b.word));
+    for (const entry of list) {
+      const pos = entry.data.meanings?.[0]?.partOfSpeech;
+      lines.push(
+        `- **${markdownText(entry.word)}**${pos ? ` *(${markdownText(pos)})*` : ''} — ${markdownText(entry.data.definition)}`
+      );
+      if (entry.sentence) {
+        const page = entry.pageNumber > 0 ? ` (p. ${entry.pageNumber})` : '';
+        lines.push(`  > ${markdownText(entry.sentence)}${page}`);
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function ankiTag(value: string): string {
+  return value.trim().replace(/\s+/g, '_').replace(/[^\p{L}\p{N}_:-]/gu, '');
+}
+
+/**
+ * Anki "Import File" text: tab-separated front/back/tags with HTML fields.
+ * The header lines tell Anki the separator, that fields are HTML and which
+ * column holds the tags.
+ */
+export function toAnki(entries: LookupHistoryEntry[]): string {
+  const lines = ['#separator:tab', '#html:true', '#tags column:3'];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const key = `${entry.language}:${entry.word}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const pos = entry.data.meanings?.[0]?.partOfSpeech;
+    const back = [
+      pos ? `<i>${escapeHtml(pos)}</i><br>` : '',
+      escapeHtml(entry.data.definition),
+      entry.data.example ? `<br><br>“${escapeHtml(entry.data.example)}”` : '',
+      entry.sentence
+        ? `<br><br><small>${escapeHtml(entry.sentence)}${
+            entry.documentName
+              ? ` — ${escapeHtml(entry.documentName)}${entry.pageNumber > 0 ? `, p. ${entry.pageNumber}` : ''}`
+              : ''
+          }</small>`
+        : '',
+    ].join('');
+
+    const tags = [ankiTag(getLanguageName(entry.language)), entry.documentName ? ankiTag(entry.documentName) : '']
+      .filter(Boolean)
+      .join(' ');
+
+    lines.push([escapeHtml(entry.word), back, tags].map(tsvField).join('\t'));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function toJsonBackup(entries: LookupHistoryEntry[]): string {
+  return JSON.stringify(
+    { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), entries },
+    null,
+    2
+  );
+}
+
+function isHistoryEntry(value: any): value is LookupHistoryEntry {
+  return (
+    value &&
+    typeof value.id === 'string' &&
+    typeof value.word === 'string' &&
+    typeof value.lookedUpAt === 'number' &&
+    value.data &&
+    typeof value.data.definition === 'string'
+  );
+}
+
+/**
+ * Parse a JSON backup. Throws an Error with a readable message if the file
+ * isn't one; entries that don't look like history entries are skipped.
+ */
+export function parseJsonBackup(text: string): LookupHistoryEntry[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (parsed?.format !== BACKUP_FORMAT || !Array.isArray(parsed.entries)) {
+    throw new Error('The file is not a lookup history backup.');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('The backup was made by a newer version of the reader.');
+  }
+
+  return parsed.entries.filter(isHistoryEntry).map((e: LookupHistoryEntry) => ({
+    ...e,
+    language: e.language || 'en',
+    sentence: e.sentence ?? null,
+    documentName: e.documentName || '',
+    documentKey: e.documentKey || '',
+    pageNumber: e.pageNumber || 0,
+  }));
+}
+
+export function exportHistory(entries: LookupHistoryEntry[], format: ExportFormat, columnIds: string[]): string {
+  switch (format) {
+    case 'csv':
+      return toDelimited(entries, columnIds, ',');
+    case 'tsv':
+      return toDelimited(entries, columnIds, '\t');
+    case 'markdown':
+      return toMarkdownGlossary(entries);
+    case 'anki':
+      return toAnki(entries);
+    case 'json':
+      return toJsonBackup(entries);
+  }
+}
+
+export function downloadTextFile(filename: string, content: string, mime: string) {
+  downloadBlob(filename, new Blob([content], { type: `${mime};charset=utf-8` }));
+}
+
+export function loadExportColumns(): string[] {
+  try {
+    const raw = localStorage.getItem(COLUMNS_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(parsed)) {
+      const known = parsed.filter((id) => EXPORT_COLUMNS.some((c) => c.id === id));
+      if (known.length > 0) return known;
+    }
+  } catch (err) {
+    console.warn('[HistoryExport] Failed to read export columns:', err);
+  }
+  return DEFAULT_EXPORT_COLUMNS;
+}
+
+export function saveExportColumns(columnIds: string[]) {
+  try {
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columnIds));
+  } catch (err) {
+    console.warn('[HistoryExport] Failed to save export columns:', err);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Shared IndexedDB database for everything the reader keeps between sessions.
+ * Each feature registers its object store in STORES; bump DB_VERSION whenever
+ * a store or index is added so existing databases get upgraded.
+ */
+
+const DB_NAME = 'padf';
+const DB_VERSION = 8;
+
+interface StoreSchema {
+  keyPath: string;
+  indexes: { name: string; keyPath: string; unique?: boolean }[];
+}
+
+const STORES: Record<string, StoreSchema> = {
+  definitions: {
+    keyPath: 'key',
+    indexes: [{ name: 'lastAccess', keyPath: 'lastAccess' }],
+  },
+  vocabulary: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'word', keyPath: 'word' },
+      { name: 'createdAt', keyPath: 'createdAt' },
+    ],
+  },
+  reviewCards: {
+    keyPath: 'id',
+    indexes: [{ name: 'due', keyPath: 'due' }],
+  },
+  reviewLog: {
+    keyPath: 'id',
+    indexes: [{ name: 'reviewedAt', keyPath: 'reviewedAt' }],
+  },
+  lookupHistory: {
+    keyPath: 'id',
+    indexes: [{ name: 'lookedUpAt', keyPath: 'lookedUpAt' }],
+  },
+  annotations: {
+    keyPath: 'id',
+    indexes: [{ name: 'documentKey', keyPath: 'documentKey' }],
+  },
+  recentDocuments: {
+    keyPath: 'key',
+    indexes: [{ name: 'openedAt', keyPath: 'openedAt' }],
+  },
+  ocrResults: {
+    keyPath: 'key',
+    indexes: [{ name: 'documentKey', keyPath: 'documentKey' }],
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        console.log('[IndexedDB] Upgrading database from version', event.oldVersion, 'to', DB_VERSION);
+
+        // v2: definition cache keys include the language; old entries can't be found anymore
+        if (event.oldVersion === 1 && db.objectStoreNames.contains('definitions')) {
+          tx.objectStore('definitions').clear();
+        }
+
+        for (const [name, schema] of Object.entries(STORES)) {
+          const store = db.objectStoreNames.contains(name)
+            ? tx.objectStore(name)
+            : db.createObjectStore(name, { keyPath: schema.keyPath });
+          for (const index of schema.indexes) {
+            if (!store.indexNames.contains(index.name)) {
+              store.createIndex(index.name, index.keyPath, { unique: !!index.unique });
+            }
+          }
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: let it, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('[IndexedDB] Upgrade blocked by another open tab');
+    });
+
+    // Allow a later call to retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+export function createRecordId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
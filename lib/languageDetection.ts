@@ -0,0 +1,159 @@
+import { getPageTextIndex } from '@/lib/pdfSearch';
+
+/**
+ * Document language
+ * Decides which language a document's words are looked up in: a manual
+ * override wins, then what the text itself looks like, then the PDF's /Lang
+ * entry (often left at the authoring tool's default), then English.
+ */
+
+export interface Language {
+  code: string;
+  name: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+];
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export type LanguageSource = 'override' | 'detected' | 'metadata' | 'default';
+
+export interface DocumentLanguage {
+  code: string;
+  source: LanguageSource;
+  detected: string | null;
+  metadata: string | null;
+}
+
+const STORAGE_PREFIX = 'padf:lang:';
+
+// Pages sampled for detection; enough text without reading a whole book
+const DETECTION_PAGES = 5;
+// Share of tokens that must be function words of the winning language
+const MIN_DETECTION_SCORE = 0.08;
+
+// Frequent function words; these dominate running text in each language
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'it', 'for', 'was', 'on', 'are', 'with', 'as', 'this', 'be', 'by', 'not', 'or', 'which', 'from', 'have', 'an', 'they', 'we'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'un', 'une', 'du', 'est', 'en', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'ce', 'il', 'elle', 'sont', 'par', 'aux'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'den', 'von', 'zu', 'mit', 'sich', 'des', 'auf', 'ein', 'eine', 'auch', 'es', 'im', 'dem', 'wird', 'sie', 'ich', 'für', 'werden', 'oder'],
+  es: ['el', 'la', 'los', 'las', 'de', 'y', 'que', 'en', 'un', 'una', 'es', 'por', 'con', 'no', 'para', 'del', 'se', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'su', 'son'],
+  it: ['il', 'la', 'di', 'che', 'e', 'un', 'una', 'per', 'non', 'con', 'del', 'della', 'sono', 'gli', 'le', 'si', 'nel', 'alla', 'da', 'come', 'anche', 'più', 'ma', 'questo', 'è'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'e', 'que', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'no', 'na', 'por', 'se', 'dos', 'das', 'mais', 'como', 'é', 'ao'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in', 'niet', 'zijn', 'met', 'voor', 'die', 'er', 'aan', 'ook', 'als', 'bij', 'om', 'wordt', 'maar', 'dan', 'of'],
+};
+
+const STOPWORD_SETS = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([code, words]) => [code, new Set(words)])
+);
+
+export function getLanguageName(code: string): string {
+  return LANGUAGES.find((l) => l.code === code)?.name || code;
+}
+
+/**
+ * "en-US", "EN", "fr_CA" → "en", "en", "fr"; null for anything unsupported
+ */
+export function normalizeLanguageTag(tag: unknown): string | null {
+  if (typeof tag !== 'string') return null;
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGES.some((l) => l.code === primary) ? primary : null;
+}
+
+/**
+ * Guess the language of a text by how many of its tokens are common
+ * function words of each language. Null if no language clearly stands out.
+ */
+export function detectTextLanguage(text: string): string | null {
+  const tokens = text.toLowerCase().match(/[\p{L}\p{M}]+/gu) || [];
+  if (tokens.length < 20) return null;
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const [code, words] of Object.entries(STOPWORD_SETS)) {
+    let hits = 0;
+    for (const token of tokens) {
+      if (words.has(token)) hits++;
+    }
+    const score = hits / tokens.length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= MIN_DETECTION_SCORE ? best : null;
+}
+
+async function loadMetadataLanguage(pdfDoc: any): Promise<string | null> {
+  try {
+    const { info } = await pdfDoc.getMetadata();
+    return normalizeLanguageTag(info?.Language);
+  } catch (err) {
+    console.warn('[Language] Failed to read document metadata:', err);
+    return null;
+  }
+}
+
+async function detectDocumentTextLanguage(pdfDoc: any): Promise<string | null> {
+  const pages = Math.min(pdfDoc.numPages, DETECTION_PAGES);
+  const parts: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pages; pageNumber++) {
+    try {
+      const index = await getPageTextIndex(pdfDoc, pageNumber);
+      parts.push(index.text);
+    } catch (err) {
+      console.warn(`[Language] Failed to read text of page ${pageNumber}:`, err);
+    }
+  }
+  return detectTextLanguage(parts.join(' '));
+}
+
+export function pickDocumentLanguage(
+  override: string | null,
+  detected: string | null,
+  metadata: string | null
+): DocumentLanguage {
+  if (override) return { code: override, source: 'override', detected, metadata };
+  if (detected) return { code: detected, source: 'detected', detected, metadata };
+  if (metadata) return { code: metadata, source: 'metadata', detected, metadata };
+  return { code: DEFAULT_LANGUAGE, source: 'default', detected, metadata };
+}
+
+export async function resolveDocumentLanguage(pdfDoc: any, override: string | null): Promise<DocumentLanguage> {
+  const [metadata, detected] = await Promise.all([
+    loadMetadataLanguage(pdfDoc),
+    detectDocumentTextLanguage(pdfDoc),
+  ]);
+  console.log('[Language] Document language:', { override, detected, metadata });
+  return pickDocumentLanguage(override, detected, metadata);
+}
+
+export function loadLanguageOverride(docKey: string): string | null {
+  try {
+    return normalizeLanguageTag(localStorage.getItem(STORAGE_PREFIX + docKey));
+  } catch (err) {
+    console.warn('[Language] Failed to read language override:', err);
+    return null;
+  }
+}
+
+export function saveLanguageOverride(docKey: string, code: string | null) {
+  try {
+    if (code) {
+      localStorage.setItem(STORAGE_PREFIX + docKey, code);
+    } else {
+      localStorage.removeItem(STORAGE_PREFIX + docKey);
+    }
+  } catch (err) {
+    console.warn('[Language] Failed to save language override:', err);
+  }
+}
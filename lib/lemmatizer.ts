@@ -0,0 +1,197 @@
+/**
+ * Lemmatizer
+ * Produces candidate base forms for an inflected word ("studies" → "study",
+ * "running" → "run", "analyses" → "analysis") so a lookup that misses on the
+ * surface form can retry with the dictionary headword. Irregular forms come
+ * from an exceptions table; everything else from suffix rules. Candidates are
+ * guesses, ordered by likelihood, and only the ones a dictionary knows matter.
+ */
+
+export const MAX_LEMMA_CANDIDATES = 6;
+
+// Irregular inflections → base form
+const EXCEPTIONS: Record<string, string[]> = {
+  // Verbs
+  am: ['be'], is: ['be'], are: ['be'], was: ['be'], were: ['be'], been: ['be'], being: ['be'],
+  has: ['have'], had: ['have'], having: ['have'],
+  does: ['do'], did: ['do'], done: ['do'],
+  went: ['go'], gone: ['go'], goes: ['go'],
+  made: ['make'], said: ['say'], saw: ['see'], seen: ['see'],
+  took: ['take'], taken: ['take'], gave: ['give'], given: ['give'],
+  came: ['come'], became: ['become'], began: ['begin'], begun: ['begin'],
+  brought: ['bring'], bought: ['buy'], caught: ['catch'], taught: ['teach'],
+  thought: ['think'], sought: ['seek'], fought: ['fight'],
+  found: ['find'], felt: ['feel'], kept: ['keep'], left: ['leave'], meant: ['mean'],
+  held: ['hold'], told: ['tell'], sold: ['sell'], stood: ['stand'], understood: ['understand'],
+  knew: ['know'], known: ['know'], grew: ['grow'], grown: ['grow'], drew: ['draw'], drawn: ['draw'],
+  threw: ['throw'], thrown: ['throw'], flew: ['fly'], flown: ['fly'], shown: ['show'],
+  wrote: ['write'], written: ['write'], rode: ['ride'], ridden: ['ride'], rose: ['rise'], risen: ['rise'],
+  spoke: ['speak'], spoken: ['speak'], broke: ['break'], broken: ['break'], chose: ['choose'], chosen: ['choose'],
+  froze: ['freeze'], frozen: ['freeze'], stole: ['steal'], stolen: ['steal'], woke: ['wake'], woken: ['wake'],
+  ate: ['eat'], eaten: ['eat'], fell: ['fall'], fallen: ['fall'], forgot: ['forget'], forgotten: ['forget'],
+  got: ['get'], gotten: ['get'], lay: ['lie'], lain: ['lie'], led: ['lead'], lost: ['lose'],
+  ran: ['run'], sang: ['sing'], sung: ['sing'], sat: ['sit'], spent: ['spend'], sent: ['send'], built: ['build'],
+  swam: ['swim'], swum: ['swim'], drank: ['drink'], drunk: ['drink'], wore: ['wear'], worn: ['wear'],
+  won: ['win'], paid: ['pay'], laid: ['lay'], heard: ['hear'], met: ['meet'], slept: ['sleep'],
+  // Nouns
+  men: ['man'], women: ['woman'], children: ['child'], people: ['person'], feet: ['foot'], teeth: ['tooth'],
+  geese: ['goose'], mice: ['mouse'], lice: ['louse'], oxen: ['ox'], dice: ['die'],
+  data: ['datum', 'data'], criteria: ['criterion'], phenomena: ['phenomenon'], media: ['medium', 'media'],
+  bacteria: ['bacterium'], curricula: ['curriculum'], strata: ['stratum'], memoranda: ['memorandum'],
+  indices: ['index'], matrices: ['matrix'], appendices: ['appendix'], vertices: ['vertex'],
+  analyses: ['analysis'], hypotheses: ['hypothesis'], theses: ['thesis'], crises: ['crisis'], bases: ['basis', 'base'],
+  diagnoses: ['diagnosis'], syntheses: ['synthesis'], parentheses: ['parenthesis'], axes: ['axis', 'axe'],
+  nuclei: ['nucleus'], stimuli: ['stimulus'], radii: ['radius'], fungi: ['fungus'], foci: ['focus'], loci: ['locus'],
+  alumni: ['alumnus'], formulae: ['formula'], larvae: ['larva'], antennae: ['antenna'],
+  // Adjectives/adverbs
+  better: ['good', 'well'], best: ['good', 'well'], worse: ['bad'], worst: ['bad'],
+  more: ['many', 'much'], most: ['many', 'much'], less: ['little'], least: ['little'],
+  further: ['far'], furthest: ['far'], farther: ['far'], farthest: ['far'],
+};
+
+const VOWELS = 'aeiou';
+
+function isConsonant(ch: string | undefined): boolean {
+  return !!ch && /[a-z]/.test(ch) && !VOWELS.includes(ch);
+}
+
+/**
+ * Consonant-vowel-consonant ending ("mak", "hop"), where a silent "e" was
+ * most likely dropped before the suffix ("making" → "make")
+ */
+function endsWithCvc(stem: string): boolean {
+  const n = stem.length;
+  return (
+    n >= 3 &&
+    isConsonant(stem[n - 3]) &&
+    VOWELS.includes(stem[n - 2]) &&
+    isConsonant(stem[n - 1]) &&
+    !'wxy'.includes(stem[n - 1])
+  );
+}
+
+/**
+ * "running" → "run", "stopped" → "stop": undo a doubled final consonant
+ */
+function undouble(stem: string): string | null {
+  const last = stem[stem.length - 1];
+  if (stem.length >= 3 && last === stem[stem.length - 2] && isConsonant(last) && !'lsz'.includes(last)) {
+    return stem.slice(0, -1);
+  }
+  return null;
+}
+
+/**
+ * Suffix rules for a single (unhyphenated) word, most likely first.
+ */
+function ruleCandidates(word: string): string[] {
+  const out: string[] = [];
+  const add = (candidate: string | null) => {
+    if (candidate && candidate.length >= 2) out.push(candidate);
+  };
+  const ends = (suffix: string) => word.length > suffix.length + 1 && word.endsWith(suffix);
+  const stem = (suffix: string) => word.slice(0, -suffix.length);
+
+  // Possessives: "author's"
+  if (ends("'s")) {
+    add(stem("'s"));
+    return out;
+  }
+
+  // Plurals and 3rd person singular
+  if (ends('ies')) add(stem('ies') + 'y');
+  if (ends('ves')) {
+    add(stem('ves') + 'f');
+    add(stem('ves') + 'fe');
+  }
+  if (ends('ses') && !ends('sses')) add(stem('ses') + 'sis');
+  if (ends('ices')) {
+    add(stem('ices') + 'ex');
+    add(stem('ices') + 'ix');
+  }
+  if (ends('es') && /(s|x|z|ch|sh|o)es$/.test(word)) add(stem('es'));
+  if (ends('s') && !ends('ss') && !ends('us') && !ends('is')) add(stem('s'));
+
+  // Past tense / participles
+  if (ends('ied')) add(stem('ied') + 'y');
+  if (ends('ed')) {
+    const base = stem('ed');
+    add(undouble(base));
+    if (endsWithCvc(base)) {
+      add(base + 'e');
+      add(base);
+    } else {
+      add(base);
+      add(base + 'e');
+    }
+  }
+
+  // Progressive
+  if (word.length >= 5 && word.endsWith('ying')) add(stem('ying') + 'ie');
+  if (ends('ing')) {
+    const base = stem('ing');
+    add(undouble(base));
+    if (endsWithCvc(base)) {
+      add(base + 'e');
+      add(base);
+    } else {
+      add(base);
+      add(base + 'e');
+    }
+  }
+
+  // Comparatives and superlatives
+  if (ends('iest')) add(stem('iest') + 'y');
+  if (ends('ier')) add(stem('ier') + 'y');
+  if (ends('est')) {
+    const base = stem('est');
+    add(undouble(base));
+    add(base);
+    add(base + 'e');
+  }
+  if (ends('er')) {
+    const base = stem('er');
+    add(undouble(base));
+    add(base);
+    add(base + 'e');
+  }
+
+  // Adverbs
+  if (ends('ily')) add(stem('ily') + 'y');
+  if (ends('ally')) add(stem('ally'));
+  if (ends('ly')) add(stem('ly'));
+
+  return out;
+}
+
+function wordCandidates(word: string): string[] {
+  return [...(EXCEPTIONS[word] || []), ...ruleCandidates(word)];
+}
+
+// French/Italian elided articles and pronouns: "l'homme" → "homme"
+const ELISION = /^(?:l|d|j|m|n|s|t|c|qu|jusqu|lorsqu|puisqu|dell|all|dall|nell|sull|un)'(.{2,})$/;
+
+/**
+ * Candidate lemmas for a normalized word, excluding the word itself.
+ * English gets the full inflection rules; for hyphenated compounds only the
+ * last part is inflected ("state-owned" stays, "check-ins" → "check-in").
+ * French and Italian only drop elided articles; other languages get none.
+ */
+export function getLemmaCandidates(word: string, language: string = 'en'): string[] {
+  if (language === 'fr' || language === 'it') {
+    const match = ELISION.exec(word);
+    return match ? [match[1]] : [];
+  }
+  if (language !== 'en') {
+    return [];
+  }
+
+  const dash = word.lastIndexOf('-');
+  const prefix = dash === -1 ? '' : word.slice(0, dash + 1);
+  const head = dash === -1 ? word : word.slice(dash + 1);
+
+  const candidates = wordCandidates(head).map((c) => prefix + c);
+  return Array.from(new Set(candidates))
+    .filter((c) => c !== word)
+    .slice(0, MAX_LEMMA_CANDIDATES);
+}
@@ -0,0 +1,98 @@
+import { DefinitionData, LookupHistoryEntry, WordContext } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone, createRecordId } from '@/lib/indexedDb';
+
+/**
+ * Lookup history
+ * Every successful lookup with its definition, document, page and time,
+ * stored in IndexedDB as the source for exports.
+ */
+
+const STORE = 'lookupHistory';
+
+export interface HistoryFilter {
+  documentKey: string | null;
+  from: number | null; // inclusive timestamps
+  to: number | null;
+}
+
+export interface HistoryDocument {
+  key: string;
+  name: string;
+}
+
+export async function recordHistory(data: DefinitionData, context: WordContext | null): Promise<void> {
+  if (data.error) return;
+
+  const entry: LookupHistoryEntry = {
+    id: createRecordId(),
+    word: data.word,
+    language: data.language || 'en',
+    data,
+    sentence: context?.sentence ?? null,
+    documentName: context?.documentName || '',
+    documentKey: context?.documentKey || '',
+    pageNumber: context?.pageNumber || 0,
+    lookedUpAt: Date.now(),
+  };
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await transactionDone(tx);
+  } catch (err) {
+    console.warn('[LookupHistory] Failed to record lookup:', err);
+  }
+}
+
+/**
+ * All history entries, newest first
+ */
+export async function listHistory(): Promise<LookupHistoryEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const entries = await requestToPromise<LookupHistoryEntry[]>(store.getAll());
+  return entries.sort((a, b) => b.lookedUpAt - a.lookedUpAt);
+}
+
+export function filterHistory(entries: LookupHistoryEntry[], filter: HistoryFilter): LookupHistoryEntry[] {
+  return entries.filter(
+    (e) =>
+      (!filter.documentKey || e.documentKey === filter.documentKey) &&
+      (filter.from === null || e.lookedUpAt >= filter.from) &&
+      (filter.to === null || e.lookedUpAt <= filter.to)
+  );
+}
+
+export function listHistoryDocuments(entries: LookupHistoryEntry[]): HistoryDocument[] {
+  const byKey = new Map<string, string>();
+  for (const e of entries) {
+    if (e.documentKey && !byKey.has(e.documentKey)) {
+      byKey.set(e.documentKey, e.documentName || e.documentKey);
+    }
+  }
+  return Array.from(byKey, ([key, name]) => ({ key, name })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Add imported entries; entries whose id already exists are overwritten.
+ * Returns how many were stored.
+ */
+export async function importHistoryEntries(entries: LookupHistoryEntry[]): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const entry of entries) {
+    store.put(entry);
+  }
+  await transactionDone(tx);
+  console.log(`[LookupHistory] Imported ${entries.length} entries`);
+  return entries.length;
+}
+
+export async function clearHistory(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).clear();
+  await transactionDone(tx);
+}
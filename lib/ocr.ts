@@ -0,0 +1,324 @@
+import { OcrPageResult, OcrWord } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+import { loadScript } from '@/lib/scriptLoader';
+import { releaseCanvas } from '@/lib/pdfPageRenderer';
+
+/**
+ * OCR for image-only pages
+ * Tesseract.js (WebAssembly) reads the page rendered at print-like
+ * resolution. The engine, its worker and the language data are served from
+ * vendor/tesseract/ (see the README there), so nothing leaves the machine.
+ * Word boxes are kept as fractions of the page so one result serves every
+ * zoom level; results are cached in IndexedDB per document and page.
+ */
+
+const STORE = 'ocrResults';
+
+export interface OcrConfig {
+  scriptUrl: string;
+  workerPath: string;
+  corePath: string;
+  langPath: string;
+}
+
+export const DEFAULT_OCR_CONFIG: OcrConfig = {
+  scriptUrl: '/vendor/tesseract/tesseract.min.js',
+  workerPath: '/vendor/tesseract/worker.min.js',
+  corePath: '/vendor/tesseract/core',
+  langPath: '/vendor/tesseract/lang',
+};
+
+// 216 dpi: plenty for body text without enormous canvases
+const OCR_SCALE = 3;
+// Below this Tesseract's "words" are mostly specks and picture edges
+const MIN_CONFIDENCE = 40;
+
+// Document language (ISO 639-1) → Tesseract language data
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: 'eng',
+  fr: 'fra',
+  de: 'deu',
+  es: 'spa',
+  it: 'ita',
+  pt: 'por',
+  nl: 'nld',
+};
+const DEFAULT_TESSERACT_LANGUAGE = 'eng';
+
+export interface OcrProgress {
+  status: string; // Tesseract's step, e.g. "recognizing text"
+  progress: number; // 0-1 within that step
+}
+
+export interface OcrJob {
+  // Resolves to null if the job was cancelled
+  promise: Promise<OcrPageResult | null>;
+  cancel: () => void;
+}
+
+export function getOcrConfig(): OcrConfig {
+  return { ...DEFAULT_OCR_CONFIG, ...window.ocrConfig };
+}
+
+export function getTesseractLanguage(language: string): string {
+  return TESSERACT_LANGUAGES[language] || DEFAULT_TESSERACT_LANGUAGE;
+}
+
+// Line shown with a page whose text came from OCR
+export function describeOcrResult(result: OcrPageResult): string {
+  return result.missingLanguage
+    ? `Text on this page was recognized by OCR as English, because the "${result.missingLanguage}" language data isn't installed (see vendor/tesseract/README.md); expect mistakes`
+    : 'Text on this page was recognized by OCR and may contain mistakes';
+}
+
+function resultKey(documentKey: string, pageNumber: number): string {
+  return `${documentKey}:${pageNumber}`;
+}
+
+export async function loadOcrResult(documentKey: string, pageNumber: number): Promise<OcrPageResult | null> {
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    return (await requestToPromise<OcrPageResult | undefined>(store.get(resultKey(documentKey, pageNumber)))) || null;
+  } catch (err) {
+    console.warn('[OCR] Could not read cached result:', err);
+    return null;
+  }
+}
+
+async function saveOcrResult(result: OcrPageResult): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(result);
+  await transactionDone(tx);
+}
+
+let enginePromise: Promise<any> | null = null;
+
+function loadEngine(): Promise<any> {
+  if (!enginePromise) {
+    const { scriptUrl } = getOcrConfig();
+    enginePromise = loadScript(scriptUrl)
+      .catch((err) => {
+        console.error('[OCR] Engine unavailable:', err);
+        throw new Error(`The OCR engine could not be loaded from ${scriptUrl} (see vendor/tesseract/README.md).`);
+      })
+      .then(() => {
+        if (!window.Tesseract) {
+          throw new Error(`${scriptUrl} did not define Tesseract`);
+        }
+        console.log('[OCR] Engine loaded from', scriptUrl);
+        return window.Tesseract;
+      });
+    enginePromise.catch(() => {
+      enginePromise = null;
+    });
+  }
+  return enginePromise;
+}
+
+async function fileExists(url: string): Promise<boolean> {
+  const response = await fetch(url, { method: 'HEAD' }).catch(() => null);
+  return !!response?.ok;
+}
+
+function languageDataUrl(language: string): string {
+  return `${getOcrConfig().langPath.replace(/\/$/, '')}/${language}.traineddata.gz`;
+}
+
+// Whether each language's data is served, looked up once
+const languageData = new Map<string, Promise<boolean>>();
+
+/**
+ * The Tesseract language to read a document in (ISO 639-1): its own, or
+ * English when that language's data isn't installed
+ */
+async function chooseTesseractLanguage(language: string): Promise<string> {
+  const wanted = getTesseractLanguage(language);
+  if (wanted === DEFAULT_TESSERACT_LANGUAGE) return wanted;
+
+  let available = languageData.get(wanted);
+  if (!available) {
+    available = fileExists(languageDataUrl(wanted));
+    languageData.set(wanted, available);
+  }
+  if (await available) return wanted;
+  console.warn('[OCR] No', wanted, 'language data; reading as', DEFAULT_TESSERACT_LANGUAGE);
+  return DEFAULT_TESSERACT_LANGUAGE;
+}
+
+// Tesseract reports a missing worker, core or language file with an opaque
+// error (if at all), so look for them first and name the ones that are missing
+async function checkOcrFiles(language: string): Promise<void> {
+  const { workerPath, corePath } = getOcrConfig();
+  const files = [workerPath, `${corePath.replace(/\/$/, '')}/tesseract-core-lstm.wasm.js`, languageDataUrl(language)];
+  const missing: string[] = [];
+  await Promise.all(
+    files.map(async (url) => {
+      if (!(await fileExists(url))) missing.push(url);
+    })
+  );
+  if (missing.length > 0) {
+    console.error('[OCR] Missing files:', missing);
+    throw new Error(
+      `Text recognition isn't set up: ${missing.join(', ')} could not be found (see vendor/tesseract/README.md).`
+    );
+  }
+}
+
+// One Tesseract worker per language. Jobs run one at a time so progress
+// messages can be routed to the job that is running.
+interface OcrWorker {
+  worker: Promise<any>;
+  queue: Promise<unknown>;
+  onProgress: ((progress: OcrProgress) => void) | null;
+}
+
+const workers = new Map<string, OcrWorker>();
+
+function getWorker(language: string): OcrWorker {
+  let entry = workers.get(language);
+  if (!entry) {
+    const created: OcrWorker = { worker: Promise.resolve(null), queue: Promise.resolve(), onProgress: null };
+    const { workerPath, corePath, langPath } = getOcrConfig();
+    created.worker = Promise.all([loadEngine(), checkOcrFiles(language)]).then(([Tesseract]) =>
+      Tesseract.createWorker(language, 1, {
+        workerPath,
+        corePath,
+        langPath,
+        logger: (message: any) =>
+          created.onProgress?.({ status: message.status, progress: message.progress ?? 0 }),
+      })
+    );
+    created.worker.catch((err) => {
+      console.error('[OCR] Could not start worker for', language, err);
+      if (workers.get(language) === created) workers.delete(language);
+    });
+    workers.set(language, created);
+    entry = created;
+  }
+  return entry;
+}
+
+// Tesseract can't stop a job half way; the worker is thrown away instead
+function terminateWorker(language: string, entry: OcrWorker) {
+  if (workers.get(language) === entry) {
+    workers.delete(language);
+  }
+  entry.worker.then((worker) => worker?.terminate()).catch(() => {});
+}
+
+async function renderForOcr(page: any): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale: OCR_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available for OCR');
+  }
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return canvas;
+}
+
+function toOcrWords(data: any, width: number, height: number): OcrWord[] {
+  const words: OcrWord[] = [];
+  (data.lines || []).forEach((line: any, lineIndex: number) => {
+    for (const word of line.words || []) {
+      const text = (word.text || '').trim();
+      if (!text || word.confidence < MIN_CONFIDENCE) continue;
+      const { x0, y0, x1, y1 } = word.bbox;
+      words.push({
+        text,
+        bbox: [x0 / width, y0 / height, x1 / width, y1 / height],
+        line: lineIndex,
+        confidence: word.confidence,
+      });
+    }
+  });
+  return words;
+}
+
+/**
+ * Recognize the text of a page, or return the cached result. `language` is
+ * the document language (ISO 639-1).
+ */
+export function recognizePage(
+  page: any,
+  documentKey: string,
+  pageNumber: number,
+  language: string,
+  onProgress?: (progress: OcrProgress) => void
+): OcrJob {
+  const wantedLanguage = getTesseractLanguage(language);
+  let tesseractLanguage = wantedLanguage;
+  let cancelled = false;
+  // Worker currently recognizing this page (queued jobs just skip when cancelled)
+  let running: OcrWorker | null = null;
+  let resolveCancel: (value: null) => void = () => {};
+  const cancelPromise = new Promise<null>((resolve) => {
+    resolveCancel = resolve;
+  });
+
+  const run = async (): Promise<OcrPageResult | null> => {
+    const cached = await loadOcrResult(documentKey, pageNumber);
+    if (cached) {
+      console.log('[OCR] Using cached result for page', pageNumber);
+      return cached;
+    }
+    if (cancelled) return null;
+
+    tesseractLanguage = await chooseTesseractLanguage(language);
+    if (cancelled) return null;
+    const worker = getWorker(tesseractLanguage);
+    const job = worker.queue.then(async () => {
+      if (cancelled) return null;
+      console.log('[OCR] Recognizing page', pageNumber, 'as', tesseractLanguage);
+      running = worker;
+      let canvas: HTMLCanvasElement | null = null;
+      try {
+        canvas = await renderForOcr(page);
+        if (cancelled) return null;
+        worker.onProgress = onProgress || null;
+        const tesseract = await worker.worker;
+        const { data } = await tesseract.recognize(canvas);
+        return toOcrWords(data, canvas.width, canvas.height);
+      } finally {
+        running = null;
+        worker.onProgress = null;
+        if (canvas) releaseCanvas(canvas);
+      }
+    });
+    worker.queue = job.catch(() => undefined);
+
+    const words = await job;
+    if (!words || cancelled) return null;
+
+    const result: OcrPageResult = {
+      key: resultKey(documentKey, pageNumber),
+      documentKey,
+      pageNumber,
+      language: tesseractLanguage,
+      missingLanguage: tesseractLanguage !== wantedLanguage ? wantedLanguage : undefined,
+      words,
+      createdAt: Date.now(),
+    };
+    console.log('[OCR] Page', pageNumber, 'recognized:', words.length, 'words');
+    // Saved before resolving so a re-render of the page finds it
+    await saveOcrResult(result).catch((err) => console.warn('[OCR] Could not cache result:', err));
+    return result;
+  };
+
+  return {
+    promise: Promise.race([run(), cancelPromise]),
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      console.log('[OCR] Cancelled page', pageNumber);
+      if (running) {
+        terminateWorker(tesseractLanguage, running);
+      }
+      resolveCancel(null);
+    },
+  };
+}
@@ -0,0 +1,244 @@
+import { clearTextLayer } from '@/lib/pdfPageRenderer';
+
+/**
+ * Annotation layer
+ * Comments from the PDF itself (sticky notes, markup with contents, stamps)
+ * become clickable badges with a popup, and AcroForm widgets become HTML form
+ * controls. Entered values go into the document's annotationStorage, which
+ * PDF.js writes back into the file in saveDocument().
+ */
+
+// PDF.js AnnotationMode.ENABLE_FORMS: the canvas draws every annotation
+// appearance except form widgets, which the annotation layer renders instead
+const ANNOTATION_MODE_ENABLE_FORMS = 2;
+
+// Annotations that are drawn or handled elsewhere (links have their own layer)
+const SKIPPED_SUBTYPES = new Set(['Link', 'Popup', 'Widget']);
+
+export interface AnnotationLayerResult {
+  comments: number;
+  fields: number;
+}
+
+export function getFormAnnotationMode(): number {
+  return window.pdfjsLib?.AnnotationMode?.ENABLE_FORMS ?? ANNOTATION_MODE_ENABLE_FORMS;
+}
+
+function positionElement(el: HTMLElement, viewport: any, rect: number[]) {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(rect);
+  el.style.left = `${Math.min(x1, x2)}px`;
+  el.style.top = `${Math.min(y1, y2)}px`;
+  el.style.width = `${Math.abs(x2 - x1)}px`;
+  el.style.height = `${Math.abs(y2 - y1)}px`;
+}
+
+function formatPdfDate(value: string | undefined): string {
+  // D:YYYYMMDDHHmmSS...
+  const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?/);
+  if (!match) return '';
+  const date = new Date(Number(match[1]), Number(match[2] || 1) - 1, Number(match[3] || 1));
+  return date.toLocaleDateString();
+}
+
+/**
+ * Badge in the top-right corner of a commented annotation; clicking it
+ * toggles a popup with the author, date and text.
+ */
+function createComment(annotation: any, viewport: any): HTMLElement {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+  const right = Math.max(x1, x2);
+  const top = Math.min(y1, y2);
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'annotationComment';
+  wrapper.style.left = `${right}px`;
+  wrapper.style.top = `${top}px`;
+
+  const badge = document.createElement('button');
+  badge.type = 'button';
+  badge.className = 'annotationBadge';
+  badge.textContent = annotation.subtype === 'Text' ? '📝' : '💬';
+  badge.title = annotation.titleObj?.str || annotation.subtype;
+
+  const popup = document.createElement('div');
+  popup.className = 'annotationPopup';
+  popup.hidden = true;
+
+  const heading = document.createElement('div');
+  heading.className = 'annotationPopupTitle';
+  heading.textContent = [annotation.titleObj?.str, formatPdfDate(annotation.modificationDate)]
+    .filter(Boolean)
+    .join(' · ') || annotation.subtype;
+
+  const body = document.createElement('div');
+  body.className = 'annotationPopupBody';
+  body.textContent = annotation.contentsObj?.str || '';
+  if (annotation.contentsObj?.dir) {
+    body.dir = annotation.contentsObj.dir;
+  }
+
+  popup.append(heading, body);
+  badge.addEventListener('click', (e) => {
+    e.stopPropagation();
+    popup.hidden = !popup.hidden;
+  });
+
+  wrapper.append(badge, popup);
+  return wrapper;
+}
+
+function hasComment(annotation: any): boolean {
+  return !SKIPPED_SUBTYPES.has(annotation.subtype) && !!annotation.contentsObj?.str?.trim();
+}
+
+function fontSizeFor(annotation: any, viewport: any, height: number): string {
+  const size = annotation.defaultAppearanceData?.fontSize;
+  // 0 means "auto" in a PDF default appearance
+  const px = size > 0 ? size * viewport.scale : Math.max(8, Math.min(height * 0.7, 16 * viewport.scale));
+  return `${px}px`;
+}
+
+/**
+ * HTML control for one widget annotation, or null for buttons and signatures
+ * that can't be filled in. Values are read from and written to the storage.
+ */
+function createField(
+  annotation: any,
+  viewport: any,
+  storage: any,
+  siblings: any[],
+  readOnly: boolean
+): HTMLElement | null {
+  const id: string = annotation.id;
+  let element: HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+  if (annotation.fieldType === 'Tx') {
+    const initial = storage.getValue(id, { value: annotation.fieldValue ?? '' }).value ?? '';
+    element = annotation.multiLine ? document.createElement('textarea') : document.createElement('input');
+    if (element instanceof HTMLInputElement) {
+      element.type = annotation.password ? 'password' : 'text';
+    }
+    element.value = Array.isArray(initial) ? initial.join('\n') : String(initial);
+    if (annotation.maxLen > 0) {
+      element.maxLength = annotation.maxLen;
+    }
+    element.style.textAlign = ['left', 'center', 'right'][annotation.textAlignment] || 'left';
+    element.addEventListener('input', () => storage.setValue(id, { value: element.value }));
+  } else if (annotation.fieldType === 'Btn' && (annotation.checkBox || annotation.radioButton)) {
+    const input = document.createElement('input');
+    element = input;
+
+    if (annotation.checkBox) {
+      const checked = annotation.fieldValue && annotation.fieldValue !== 'Off';
+      input.type = 'checkbox';
+      input.checked = !!storage.getValue(id, { value: checked }).value;
+      input.addEventListener('change', () => storage.setValue(id, { value: input.checked }));
+    } else {
+      input.type = 'radio';
+      input.name = `pdf-field-${annotation.fieldName}`;
+      input.checked = !!storage.getValue(id, { value: annotation.fieldValue === annotation.buttonValue }).value;
+      input.addEventListener('change', () => {
+        // Radio widgets of one field each hold their own on/off value
+        for (const sibling of siblings) {
+          if (sibling.radioButton && sibling.fieldName === annotation.fieldName) {
+            storage.setValue(sibling.id, { value: sibling.id === id });
+          }
+        }
+      });
+    }
+  } else if (annotation.fieldType === 'Ch') {
+    const select = document.createElement('select');
+    element = select;
+    select.multiple = !!annotation.multiSelect;
+    if (!annotation.combo) {
+      select.size = Math.max(2, (annotation.options || []).length);
+    }
+
+    const stored = storage.getValue(id, { value: annotation.fieldValue ?? [] }).value;
+    const selected = new Set<string>(Array.isArray(stored) ? stored : [stored]);
+    for (const option of annotation.options || []) {
+      const el = document.createElement('option');
+      el.value = option.exportValue;
+      el.textContent = option.displayValue;
+      el.selected = selected.has(option.exportValue);
+      select.appendChild(el);
+    }
+    select.addEventListener('change', () => {
+      const values = Array.from(select.selectedOptions).map((o) => o.value);
+      storage.setValue(id, { value: values });
+    });
+  } else {
+    return null;
+  }
+
+  const wrapper = document.createElement('div');
+  wrapper.className = 'annotationField';
+  positionElement(wrapper, viewport, annotation.rect);
+  element.disabled = readOnly || !!annotation.readOnly;
+  element.title = annotation.alternativeText || annotation.fieldName || '';
+  element.setAttribute('aria-label', element.title);
+  element.style.fontSize = fontSizeFor(annotation, viewport, parseFloat(wrapper.style.height));
+  wrapper.appendChild(element);
+  return wrapper;
+}
+
+/**
+ * Render the page's comments and form fields into the container.
+ * `storage` is the document's annotationStorage; `readOnly` shows the
+ * fields' values without letting them be changed (the document forbids it).
+ */
+export async function renderAnnotationLayerInto(
+  page: any,
+  viewport: any,
+  container: HTMLElement,
+  storage: any,
+  readOnly: boolean = false
+): Promise<AnnotationLayerResult> {
+  clearTextLayer(container);
+
+  const annotations: any[] = (await page.getAnnotations({ intent: 'display' })) || [];
+  const result: AnnotationLayerResult = { comments: 0, fields: 0 };
+
+  for (const annotation of annotations) {
+    if (!annotation.rect || annotation.hidden) continue;
+
+    if (annotation.subtype === 'Widget') {
+      const field = storage ? createField(annotation, viewport, storage, annotations, readOnly) : null;
+      if (field) {
+        container.appendChild(field);
+        result.fields++;
+      }
+    } else if (hasComment(annotation)) {
+      container.appendChild(createComment(annotation, viewport));
+      result.comments++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether the document has any AcroForm fields
+ */
+export async function hasFormFields(pdfDoc: any): Promise<boolean> {
+  try {
+    const fields = await pdfDoc.getFieldObjects();
+    return !!fields && Object.keys(fields).length > 0;
+  } catch (err) {
+    console.warn('[AnnotationLayer] Could not read form fields:', err);
+    return false;
+  }
+}
+
+/**
+ * The original file with the entered form values saved into it. PDF.js
+ * appends them as an incremental update to its copy of the original bytes;
+ * with nothing entered the original bytes are returned untouched.
+ */
+export async function saveFilledPdf(pdfDoc: any, originalBytes: ArrayBuffer): Promise<Blob> {
+  const bytes =
+    !pdfDoc.annotationStorage || pdfDoc.annotationStorage.size === 0
+      ? originalBytes
+      : await pdfDoc.saveDocument();
+  return new Blob([bytes], { type: 'application/pdf' });
+}
@@ -0,0 +1,442 @@
+import { WordRect, LayoutBox, LayoutWord, LayoutLine, LayoutBlock, PageLayout, OcrWord } from '@/types/pdf';
+import { extractWordsFromTextContent } from '@/lib/pdfTextExtractor';
+
+/**
+ * Page layout analysis
+ * PDF text content is a list of positioned strings; this rebuilds what a
+ * reader sees: words grouped into lines, lines into blocks (paragraphs,
+ * headings, captions) and blocks into columns, which give the reading
+ * order. Running headers and footers are recognized because they repeat on
+ * neighbouring pages, and words hyphenated at a line break are joined again.
+ * Boxes are in page units (the viewport at scale 1); callers scale them.
+ */
+
+// A gap this wide (in ems) splits a row of text into separate lines, e.g. at a column gutter
+const WORD_GAP_EM = 1.2;
+// Largest gap between the first two lines of a block; after that a line may
+// sit at most PARAGRAPH_GAP_EM further down than the block's own spacing
+const MAX_LINE_GAP_EM = 1.2;
+const PARAGRAPH_GAP_EM = 0.4;
+// A full-width line indented by more than this starts a new paragraph
+const INDENT_EM = 0.8;
+// Lines whose font sizes differ by more than this ratio belong to different blocks
+const FONT_SIZE_TOLERANCE = 0.15;
+// Blocks wider than this fraction of the page can't be inside a column
+const MAX_COLUMN_WIDTH = 0.6;
+// Bands at the top and bottom of the page (fractions of its height) searched for headers and footers
+const MARGIN_FRACTION = 0.1;
+// Pages on either side compared when looking for repeated lines
+const NEIGHBOUR_PAGES = 2;
+// How far (fraction of the page height) a repeated line may move between pages
+const REPEAT_POSITION_TOLERANCE = 0.02;
+
+// A margin line holding only a page number, after digits become 0
+const PAGE_NUMBER = /^(page\s*)?0(\s*(of|\/)\s*0)?$/;
+
+/**
+ * The lines of one page before blocks are formed, kept separately so
+ * neighbouring pages can be compared for headers and footers.
+ */
+export interface PageLines {
+  lines: LayoutLine[];
+  width: number;
+  height: number;
+}
+
+// Promises, so pages analysed at the same time (a page and its neighbours)
+// share one extraction
+const pageLinesCache = new WeakMap<object, Map<number, Promise<PageLines>>>();
+const pageLayoutCache = new WeakMap<object, Map<number, PageLayout>>();
+
+function union(boxes: LayoutBox[]): LayoutBox {
+  const x = Math.min(...boxes.map((b) => b.x));
+  const y = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Letters and digits only, with inner apostrophes and hyphens
+function toLookupWord(text: string): string {
+  return text.replace(/[^\p{L}\p{N}\p{M}'’-]/gu, '').replace(/^['’-]+|['’-]+$/g, '');
+}
+
+// Rotated and vertical words can't be put on lines left to right
+function isHorizontal(rect: WordRect): boolean {
+  if (!rect.quad) return true;
+  const dx = rect.quad[2] - rect.quad[0];
+  const dy = rect.quad[3] - rect.quad[1];
+  return dx > 0 && Math.abs(dy) <= dx * 0.1;
+}
+
+function toLine(rects: WordRect[]): LayoutLine {
+  const words: LayoutWord[] = rects.map((rect) => ({
+    text: rect.word,
+    word: toLookupWord(rect.word),
+    box: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+  }));
+  return {
+    words,
+    box: union(words.map((w) => w.box)),
+    fontSize: median(rects.map((r) => r.height)),
+    text: words.map((w) => w.text).join(' '),
+  };
+}
+
+/**
+ * Group a page's words (extracted with `keepPunctuation`, in page units)
+ * into lines: words are put in rows by their vertical centre, and a row is
+ * split wherever a gap is too wide to be a space.
+ */
+export function buildPageLines(words: WordRect[], width: number, height: number): PageLines {
+  const sorted = words
+    .filter((w) => w.word.trim() && isHorizontal(w))
+    .sort((a, b) => a.centerY - b.centerY || a.x - b.x);
+
+  const rows: WordRect[][] = [];
+  let row: WordRect[] = [];
+  let rowCenter = 0;
+  let rowHeight = 0;
+  for (const word of sorted) {
+    if (row.length > 0 && Math.abs(word.centerY - rowCenter) <= Math.min(word.height, rowHeight) / 2) {
+      row.push(word);
+      rowCenter += (word.centerY - rowCenter) / row.length;
+    } else {
+      row = [word];
+      rowCenter = word.centerY;
+      rowHeight = word.height;
+      rows.push(row);
+    }
+  }
+
+  const lines: LayoutLine[] = [];
+  for (const rowWords of rows) {
+    rowWords.sort((a, b) => a.x - b.x);
+    let segment: WordRect[] = [];
+    rowWords.forEach((word, i) => {
+      const previous = rowWords[i - 1];
+      if (previous) {
+        const gap = word.x - (previous.x + previous.width);
+        if (gap > WORD_GAP_EM * Math.min(word.height, previous.height)) {
+          lines.push(toLine(segment));
+          segment = [];
+        }
+      }
+      segment.push(word);
+    });
+    if (segment.length > 0) {
+      lines.push(toLine(segment));
+    }
+  }
+
+  lines.sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+  return { lines, width, height };
+}
+
+function lineSignature(line: LayoutLine): string {
+  return line.text.toLowerCase().replace(/\d+/g, '0').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Margin lines that are running headers or footers: page numbers, and lines
+ * that appear at about the same height on a neighbouring page. Digits are
+ * ignored so "Chapter 3 · 41" matches "Chapter 3 · 42".
+ */
+function findRunningLines(page: PageLines, neighbours: PageLines[]): Set<LayoutLine> {
+  const running = new Set<LayoutLine>();
+
+  for (const line of page.lines) {
+    const top = line.box.y / page.height;
+    const bottom = (line.box.y + line.box.height) / page.height;
+    if (bottom > MARGIN_FRACTION && top < 1 - MARGIN_FRACTION) continue;
+
+    const signature = lineSignature(line);
+    const bare = signature.replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, '');
+    const repeated = neighbours.some((other) =>
+      other.lines.some(
+        (candidate) =>
+          Math.abs(candidate.box.y / other.height - top) <= REPEAT_POSITION_TOLERANCE &&
+          lineSignature(candidate) === signature
+      )
+    );
+    if (PAGE_NUMBER.test(bare) || repeated) {
+      running.add(line);
+    }
+  }
+
+  return running;
+}
+
+function withoutSoftHyphens(line: LayoutLine): LayoutLine {
+  const words = line.words.map((w) => ({
+    ...w,
+    text: w.text.replace(/\u00AD/g, ''),
+    word: w.word.replace(/\u00AD/g, ''),
+  }));
+  return { ...line, words, text: words.map((w) => w.text).join(' ') };
+}
+
+/**
+ * Join words split at the end of a line ("exam-" + "ple," → "example,").
+ * Only a hyphen after a letter followed by a lowercase word counts, so
+ * "COVID-" + "19" or a dash before a capitalized line stay apart. Lines are
+ * copied, since the cached ones are shared with neighbouring pages.
+ */
+function joinHyphenated(lines: LayoutLine[]): LayoutLine[] {
+  const copies = lines.map((line) => ({ ...line, words: line.words.map((w) => ({ ...w })) }));
+
+  for (let i = 0; i < copies.length - 1; i++) {
+    const last = copies[i].words[copies[i].words.length - 1];
+    const next = copies[i + 1].words[0];
+    if (!last || !next) continue;
+    if (/\p{L}[-\u00AD]$/u.test(last.text) && /^\p{Ll}/u.test(next.text)) {
+      last.text = last.text.slice(0, -1) + next.text;
+      last.word = toLookupWord(last.text);
+      last.continuation = next.box;
+      copies[i + 1].words.shift();
+    }
+  }
+
+  return copies.filter((line) => line.words.length > 0).map(withoutSoftHyphens);
+}
+
+interface DraftBlock {
+  lines: LayoutLine[];
+  left: number;
+  right: number;
+  lineGap: number | null;
+}
+
+function fitsBlock(block: DraftBlock, line: LayoutLine): boolean {
+  const last = block.lines[block.lines.length - 1];
+  const size = Math.max(line.fontSize, last.fontSize);
+
+  if (Math.abs(line.fontSize - last.fontSize) > FONT_SIZE_TOLERANCE * size) return false;
+  if (line.box.x >= block.right || line.box.x + line.box.width <= block.left) return false;
+
+  const gap = line.box.y - (last.box.y + last.box.height);
+  const limit = block.lineGap !== null ? block.lineGap + PARAGRAPH_GAP_EM * size : MAX_LINE_GAP_EM * size;
+  if (gap < -size / 2 || gap > limit) return false;
+
+  // An indented line running to the block's right edge opens a paragraph;
+  // a shorter one is more likely a centred heading's second line
+  const indented = line.box.x - block.left > INDENT_EM * size;
+  const fullWidth = line.box.x + line.box.width >= block.right - 2 * size;
+  return !(indented && fullWidth);
+}
+
+function buildBlocks(lines: LayoutLine[]): LayoutBlock[] {
+  const drafts: DraftBlock[] = [];
+
+  for (const line of lines) {
+    const block = drafts.find((draft) => fitsBlock(draft, line));
+    if (block) {
+      const last = block.lines[block.lines.length - 1];
+      block.lineGap ??= line.box.y - (last.box.y + last.box.height);
+      block.lines.push(line);
+      block.left = Math.min(block.left, line.box.x);
+      block.right = Math.max(block.right, line.box.x + line.box.width);
+    } else {
+      drafts.push({ lines: [line], left: line.box.x, right: line.box.x + line.box.width, lineGap: null });
+    }
+  }
+
+  return drafts.map((draft) => {
+    const joined = joinHyphenated(draft.lines);
+    return {
+      lines: joined,
+      box: union(draft.lines.map((l) => l.box)),
+      column: 0,
+      fontSize: median(joined.map((l) => l.fontSize)),
+      text: joined.map((l) => l.text).join(' '),
+    };
+  });
+}
+
+/**
+ * Find columns as runs of narrow paragraphs sharing horizontal space and
+ * give each block its column, or -1 when it spans several. One-line blocks
+ * (headings, captions) don't define columns, so a title over the gutter
+ * can't merge two of them. Returns the number of columns.
+ */
+function assignColumns(blocks: LayoutBlock[], pageWidth: number): number {
+  const extents = blocks
+    .filter((b) => b.lines.length > 1 && b.box.width < MAX_COLUMN_WIDTH * pageWidth)
+    .map((b) => [b.box.x, b.box.x + b.box.width])
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns: number[][] = [];
+  for (const [left, right] of extents) {
+    const last = columns[columns.length - 1];
+    if (last && left < last[1]) {
+      last[1] = Math.max(last[1], right);
+    } else {
+      columns.push([left, right]);
+    }
+  }
+
+  if (columns.length <= 1) {
+    return 1;
+  }
+
+  for (const block of blocks) {
+    const overlapping = columns
+      .map((column, index) => (block.box.x < column[1] && block.box.x + block.box.width > column[0] ? index : -1))
+      .filter((index) => index >= 0);
+    if (overlapping.length === 0) {
+      // Beside every column (e.g. in the gutter): attach it to the nearest one
+      const center = block.box.x + block.box.width / 2;
+      const distances = columns.map((column) => Math.abs((column[0] + column[1]) / 2 - center));
+      block.column = distances.indexOf(Math.min(...distances));
+    } else {
+      block.column = overlapping.length === 1 ? overlapping[0] : -1;
+    }
+  }
+  return columns.length;
+}
+
+// Top to bottom, reading each band between spanning blocks column by column
+function readingOrder(blocks: LayoutBlock[]): LayoutBlock[] {
+  const ordered: LayoutBlock[] = [];
+  let band: LayoutBlock[] = [];
+  const flush = () => {
+    band.sort((a, b) => a.column - b.column || a.box.y - b.box.y);
+    ordered.push(...band);
+    band = [];
+  };
+
+  for (const block of [...blocks].sort((a, b) => a.box.y - b.box.y)) {
+    if (block.column === -1) {
+      flush();
+      ordered.push(block);
+    } else {
+      band.push(block);
+    }
+  }
+  flush();
+  return ordered;
+}
+
+// The font size carrying the most characters, to the nearest half point
+function dominantFontSize(blocks: LayoutBlock[]): number {
+  const weights = new Map<number, number>();
+  for (const block of blocks) {
+    for (const line of block.lines) {
+      const size = Math.round(line.fontSize * 2) / 2;
+      weights.set(size, (weights.get(size) || 0) + line.text.length);
+    }
+  }
+  let best = 0;
+  let bestWeight = -1;
+  weights.forEach((weight, size) => {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  });
+  return best;
+}
+
+/**
+ * Lines of a page whose only text is what OCR recognized in its image (see
+ * ocr.ts). OCR boxes are fractions of the page; `width` and `height` are
+ * the page size in page units.
+ */
+export function ocrPageLines(words: OcrWord[], width: number, height: number): PageLines {
+  const rects: WordRect[] = words.map(({ text, bbox: [x0, y0, x1, y1] }) => {
+    const x = x0 * width;
+    const y = y0 * height;
+    const w = (x1 - x0) * width;
+    const h = (y1 - y0) * height;
+    return { word: text, x, y, width: w, height: h, centerX: x + w / 2, centerY: y + h / 2 };
+  });
+  return buildPageLines(rects, width, height);
+}
+
+/**
+ * Structure of one page from its lines. `neighbours` are the lines of
+ * nearby pages, used to recognize running headers and footers; without them
+ * only bare page numbers are set apart.
+ */
+export function analyzeLayout(page: PageLines, pageNumber: number, neighbours: PageLines[] = []): PageLayout {
+  const running = findRunningLines(page, neighbours);
+  const header = page.lines.filter((l) => running.has(l) && l.box.y < page.height / 2).map(withoutSoftHyphens);
+  const footer = page.lines.filter((l) => running.has(l) && l.box.y >= page.height / 2).map(withoutSoftHyphens);
+
+  const blocks = buildBlocks(page.lines.filter((l) => !running.has(l)));
+  const columns = assignColumns(blocks, page.width);
+
+  return {
+    pageNumber,
+    width: page.width,
+    height: page.height,
+    blocks: readingOrder(blocks),
+    header,
+    footer,
+    columns,
+    bodyFontSize: dominantFontSize(blocks),
+  };
+}
+
+async function getPageLines(pdfDoc: any, pageNumber: number): Promise<PageLines> {
+  let docCache = pageLinesCache.get(pdfDoc);
+  if (!docCache) {
+    docCache = new Map();
+    pageLinesCache.set(pdfDoc, docCache);
+  }
+
+  const cached = docCache.get(pageNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const pages = docCache;
+  const lines = (async () => {
+    const page = await pdfDoc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: 1 });
+    const textContent = await page.getTextContent();
+    const words = extractWordsFromTextContent(textContent, viewport, { fonts: page.commonObjs, keepPunctuation: true });
+    return buildPageLines(words, viewport.width, viewport.height);
+  })();
+  pages.set(pageNumber, lines);
+  // A failed extraction is retried next time instead of being cached
+  lines.catch(() => {
+    if (pages.get(pageNumber) === lines) pages.delete(pageNumber);
+  });
+  return lines;
+}
+
+export async function getPageLayout(pdfDoc: any, pageNumber: number): Promise<PageLayout> {
+  let docCache = pageLayoutCache.get(pdfDoc);
+  if (!docCache) {
+    docCache = new Map();
+    pageLayoutCache.set(pdfDoc, docCache);
+  }
+
+  const cached = docCache.get(pageNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const page = await getPageLines(pdfDoc, pageNumber);
+  const neighbours: PageLines[] = [];
+  for (let other = pageNumber - NEIGHBOUR_PAGES; other <= pageNumber + NEIGHBOUR_PAGES; other++) {
+    if (other !== pageNumber && other >= 1 && other <= pdfDoc.numPages) {
+      neighbours.push(await getPageLines(pdfDoc, other));
+    }
+  }
+
+  const layout = analyzeLayout(page, pageNumber, neighbours);
+  console.log('[Layout] Page', pageNumber, ':', layout.blocks.length, 'blocks in', layout.columns, 'column(s),', {
+    header: layout.header.length,
+    footer: layout.footer.length,
+  });
+  docCache.set(pageNumber, layout);
+  return layout;
+}
@@ -1,31 +1,160 @@
+import { loadScript } from '@/lib/scriptLoader';
+
 /**
- * CDN-based PDF.js loader
- * Waits for window.pdfjsLib to be available from CDN script tag
+ * PDF.js loader
+ * Loads pdf.min.js from the first source that works (the copy served by
+ * server.js under /vendor/pdfjs/, then cdnjs) and points the worker at the
+ * same place. Pages can replace the list with window.pdfjsConfig.
  */
 
-export async function waitForPdfJs(timeoutMs: number = 10000): Promise<any> {
-  const startTime = Date.now();
+const PDFJS_VERSION = '3.11.174';
+const CDN_BASE = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${PDFJS_VERSION}`;
+
+export interface PdfJsSource {
+  name: string;
+  scriptUrl: string;
+  workerUrl: string;
+}
+
+export const DEFAULT_PDFJS_SOURCES: PdfJsSource[] = [
+  { name: 'local', scriptUrl: '/vendor/pdfjs/pdf.min.js', workerUrl: '/vendor/pdfjs/pdf.worker.min.js' },
+  { name: 'cdn', scriptUrl: `${CDN_BASE}/pdf.min.js`, workerUrl: `${CDN_BASE}/pdf.worker.min.js` },
+];
+
+let pdfJsPromise: Promise<any> | null = null;
+let loadedSource: PdfJsSource | null = null;
+
+export function getPdfJsSources(): PdfJsSource[] {
+  const sources = window.pdfjsConfig?.sources;
+  return Array.isArray(sources) && sources.length > 0 ? sources : DEFAULT_PDFJS_SOURCES;
+}
+
+/**
+ * Where PDF.js was loaded from, once it is loaded
+ */
+export function getPdfJsSource(): PdfJsSource | null {
+  return loadedSource;
+}
+
+/**
+ * Load PDF.js once; later calls share the same promise. A failed load is
+ * forgotten so the next document tries again (e.g. once back online).
+ */
+export function loadPdfJs(): Promise<any> {
+  if (!pdfJsPromise) {
+    pdfJsPromise = (async () => {
+      const sources = getPdfJsSources();
+      for (const source of sources) {
+        try {
+          await loadScript(source.scriptUrl);
+        } catch (err) {
+          console.warn('[PdfLoader] PDF.js source', source.name, 'unavailable:', err);
+          continue;
+        }
+        if (!window.pdfjsLib) {
+          console.warn('[PdfLoader] PDF.js source', source.name, 'did not define pdfjsLib');
+          continue;
+        }
+
+        window.pdfjsLib.GlobalWorkerOptions.workerSrc = source.workerUrl;
+        loadedSource = source;
+        console.log('[PdfLoader] PDF.js', window.pdfjsLib.version, 'loaded from', source.name, `(${source.scriptUrl})`);
+        return window.pdfjsLib;
+      }
 
-  while (!window.pdfjsLib) {
-    if (Date.now() - startTime > timeoutMs) {
       throw new Error(
-        'PDF.js library failed to load from CDN. Please check your internet connection and reload the page.'
+        `PDF.js library failed to load (tried ${sources.map((s) => s.name).join(', ')}). ` +
+          'Check that vendor/pdfjs is in place or that you are online, then reload the page.'
       );
-    }
-    await new Promise((resolve) => setTimeout(resolve, 100));
+    })();
+    pdfJsPromise.catch(() => {
+      pdfJsPromise = null;
+    });
   }
+  return pdfJsPromise;
+}
+
+// PDF.js PasswordResponses
+const PASSWORD_INCORRECT = 2;
+
+export type PasswordReason = 'required' | 'incorrect';
 
-  return window.pdfjsLib;
+/**
+ * Asks the user for the document's password; resolves to null when they
+ * give up, which fails the load with a PasswordException.
+ */
+export type PasswordRequest = (reason: PasswordReason) => Promise<string | null>;
+
+/**
+ * Why a document could not be opened: it is encrypted and no (correct)
+ * password was given, the data isn't a readable PDF, or something else.
+ */
+export type LoadErrorKind = 'password' | 'corrupt' | 'other';
+
+export interface PdfLoadJob {
+  promise: Promise<any>;
+  // Stops loading, or destroys the document if it has already loaded
+  cancel: () => void;
 }
 
-export async function loadPdfDocument(data: ArrayBuffer): Promise<any> {
-  const pdfjsLib = await waitForPdfJs();
+export function loadPdfDocument(data: ArrayBuffer, requestPassword?: PasswordRequest): PdfLoadJob {
+  let cancelled = false;
+  let loadingTask: any = null;
 
-  if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-    pdfjsLib.GlobalWorkerOptions.workerSrc =
-      'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-  }
+  const load = async (): Promise<any> => {
+    const pdfjsLib = await loadPdfJs();
+    if (cancelled) {
+      throw new Error('Loading was cancelled');
+    }
+
+    loadingTask = pdfjsLib.getDocument({ data });
+    if (!requestPassword) {
+      return await loadingTask.promise;
+    }
+
+    return await new Promise((resolve, reject) => {
+      // Called again with "incorrect" after every wrong password
+      loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+        requestPassword(reason === PASSWORD_INCORRECT ? 'incorrect' : 'required').then((password) => {
+          if (password === null) {
+            console.log('[PdfLoader] Password prompt cancelled');
+            loadingTask.destroy();
+            reject(Object.assign(new Error('This PDF is password protected.'), { name: 'PasswordException' }));
+            return;
+          }
+          updatePassword(password);
+        }, reject);
+      };
+      loadingTask.promise.then(resolve, reject);
+    });
+  };
 
-  const loadingTask = pdfjsLib.getDocument({ data });
-  return await loadingTask.promise;
+  return {
+    promise: load(),
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      // Destroying the task also destroys its document
+      loadingTask?.destroy().catch((err: unknown) => console.warn('[PdfLoader] Could not stop loading:', err));
+    },
+  };
+}
+
+export function getLoadErrorKind(err: unknown): LoadErrorKind {
+  const name = (err as any)?.name;
+  if (name === 'PasswordException') return 'password';
+  if (name === 'InvalidPDFException' || name === 'FormatError' || name === 'MissingPDFException') return 'corrupt';
+  return 'other';
+}
+
+/**
+ * Stable identifier for a loaded document (PDF.js fingerprint),
+ * used to key per-document settings
+ */
+export function getDocumentFingerprint(pdfDoc: any): string | null {
+  const fingerprints = pdfDoc?.fingerprints;
+  if (Array.isArray(fingerprints) && fingerprints[0]) {
+    return fingerprints[0];
+  }
+  return pdfDoc?.fingerprint || null;
 }
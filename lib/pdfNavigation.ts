@@ -0,0 +1,145 @@
+/**
+ * Document outline (bookmarks) and destination resolution
+ */
+
+export interface OutlineNode {
+  id: string;
+  title: string;
+  dest: any; // Named destination (string) or explicit destination array
+  url: string | null;
+  bold: boolean;
+  italic: boolean;
+  items: OutlineNode[];
+}
+
+/**
+ * Resolve a PDF destination to a 1-based page number.
+ * Accepts named destinations, explicit destination arrays (whose first
+ * element is a page reference or a 0-based page index) and plain indices.
+ */
+export async function resolveDestination(pdfDoc: any, dest: any): Promise<number | null> {
+  try {
+    let explicit = dest;
+    if (typeof dest === 'string') {
+      explicit = await pdfDoc.getDestination(dest);
+    }
+
+    if (!Array.isArray(explicit) || explicit.length === 0) {
+      console.warn('[Navigation] Unresolvable destination:', dest);
+      return null;
+    }
+
+    const target = explicit[0];
+    let pageIndex: number;
+
+    if (target && typeof target === 'object') {
+      pageIndex = await pdfDoc.getPageIndex(target);
+    } else if (Number.isInteger(target)) {
+      pageIndex = target;
+    } else {
+      console.warn('[Navigation] Unknown destination target:', target);
+      return null;
+    }
+
+    const pageNumber = pageIndex + 1;
+    if (pageNumber < 1 || pageNumber > pdfDoc.numPages) {
+      return null;
+    }
+    return pageNumber;
+  } catch (err) {
+    console.error('[Navigation] Failed to resolve destination:', err);
+    return null;
+  }
+}
+
+function toOutlineNodes(items: any[], prefix: string): OutlineNode[] {
+  return items.map((item, index) => {
+    const id = `${prefix}${index}`;
+    return {
+      id,
+      title: item.title || '(untitled)',
+      dest: item.dest ?? null,
+      // Only PDF.js's sanitized URL: unsafeUrl can hold javascript: and the like
+      url: item.url || null,
+      bold: !!item.bold,
+      italic: !!item.italic,
+      items: toOutlineNodes(item.items || [], `${id}.`),
+    };
+  });
+}
+
+export async function loadOutline(pdfDoc: any): Promise<OutlineNode[]> {
+  try {
+    const outline = await pdfDoc.getOutline();
+    if (!outline || outline.length === 0) {
+      console.log('[Navigation] Document has no outline');
+      return [];
+    }
+    return toOutlineNodes(outline, '');
+  } catch (err) {
+    console.error('[Navigation] Failed to load outline:', err);
+    return [];
+  }
+}
+
+/**
+ * Ask before leaving the reader for an external URL, then open it in a new tab.
+ */
+export function openExternalLink(url: string) {
+  if (window.confirm(`Open external link in a new tab?\n\n${url}`)) {
+    window.open(url, '_blank', 'noopener,noreferrer');
+  }
+}
+
+/**
+ * Page labels (e.g. "i", "ii", "1", "A-1") as defined by the PDF, or null
+ * if the document does not define any.
+ */
+export async function loadPageLabels(pdfDoc: any): Promise<string[] | null> {
+  try {
+    const labels: string[] | null = await pdfDoc.getPageLabels();
+    if (!labels || labels.length !== pdfDoc.numPages) {
+      return null;
+    }
+    // Labels identical to the physical numbers add nothing
+    if (labels.every((label, i) => label === String(i + 1))) {
+      return null;
+    }
+    return labels;
+  } catch (err) {
+    console.error('[Navigation] Failed to load page labels:', err);
+    return null;
+  }
+}
+
+export function getPageLabel(pageNumber: number, labels: string[] | null): string {
+  return labels?.[pageNumber - 1] || String(pageNumber);
+}
+
+/**
+ * Turn what the user typed into a page number. Page labels win over
+ * physical indices (typing "iv" or "A-3" finds that label); otherwise a
+ * plain number is the 1-based physical page.
+ */
+export function resolvePageInput(input: string, numPages: number, labels: string[] | null): number | null {
+  const value = input.trim();
+  if (!value) return null;
+
+  if (labels) {
+    const exact = labels.indexOf(value);
+    if (exact !== -1) return exact + 1;
+
+    const lower = value.toLowerCase();
+    const caseInsensitive = labels.findIndex((label) => label.toLowerCase() === lower);
+    if (caseInsensitive !== -1) return caseInsensitive + 1;
+  }
+
+  if (/^\d+$/.test(value)) {
+    const pageNumber = parseInt(value, 10);
+    if (pageNumber >= 1 && pageNumber <= numPages) {
+      return pageNumber;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,237 @@
+import { OcrWord } from '@/types/pdf';
+
+/**
+ * Shared page rendering helpers
+ * Used by both the single-page and continuous-scroll views so canvas and
+ * text layer are always sized from the same viewport.
+ */
+
+/**
+ * Size a canvas for the given viewport (devicePixelRatio for crisp rendering)
+ * and return its scaled 2D context, or null if no context is available.
+ */
+export function prepareCanvas(canvas: HTMLCanvasElement, viewport: any): CanvasRenderingContext2D | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return null;
+  }
+
+  const dpr = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * dpr);
+  canvas.height = Math.floor(viewport.height * dpr);
+  canvas.style.width = `${viewport.width}px`;
+  canvas.style.height = `${viewport.height}px`;
+
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+}
+
+/**
+ * Release a canvas backing store. Browsers keep the bitmap alive until the
+ * intrinsic size drops to zero, so off-screen pages shrink to 0x0.
+ */
+export function releaseCanvas(canvas: HTMLCanvasElement | null) {
+  if (!canvas) return;
+  canvas.width = 0;
+  canvas.height = 0;
+}
+
+export function clearTextLayer(container: HTMLElement | null) {
+  if (!container) return;
+  textLayerResults.delete(container);
+  while (container.firstChild) {
+    container.removeChild(container.firstChild);
+  }
+}
+
+export interface TextLayerResult {
+  textContent: any;
+  // One span per text item (items without `str` are marked-content markers)
+  textDivs: HTMLElement[];
+  itemStrs: string[];
+}
+
+// Latest result per text layer container, so selection handlers can map
+// DOM positions back to text items without threading results through props
+const textLayerResults = new WeakMap<HTMLElement, TextLayerResult>();
+
+export function getTextLayerResult(container: HTMLElement): TextLayerResult | null {
+  return textLayerResults.get(container) || null;
+}
+
+/**
+ * Render the PDF.js text layer for a page into the container.
+ * Returns null if the page has no extractable text (e.g. scanned PDF).
+ */
+export async function renderTextLayerInto(
+  page: any,
+  viewport: any,
+  container: HTMLElement
+): Promise<TextLayerResult | null> {
+  clearTextLayer(container);
+
+  // PDF.js sizes text spans with calc(var(--scale-factor) * ...), so the
+  // container must carry the viewport scale for spans to line up with the canvas
+  container.style.setProperty('--scale-factor', String(viewport.scale));
+
+  const textContent = await page.getTextContent();
+
+  if (!textContent.items || textContent.items.length === 0) {
+    return null;
+  }
+
+  if (!window.pdfjsLib || !window.pdfjsLib.renderTextLayer) {
+    console.warn('[PageRenderer] renderTextLayer API not available');
+    return null;
+  }
+
+  const textDivs: HTMLElement[] = [];
+  const itemStrs: string[] = [];
+
+  await window.pdfjsLib.renderTextLayer({
+    textContentSource: textContent,
+    container,
+    viewport,
+    textDivs,
+    textContentItemsStr: itemStrs,
+  }).promise;
+
+  const result = { textContent, textDivs, itemStrs };
+  textLayerResults.set(container, result);
+  return result;
+}
+
+// Font for sizing synthetic text; spans are stretched to their word boxes anyway
+const SYNTHETIC_FONT_FAMILY = 'sans-serif';
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function measureTextWidth(text: string, fontSize: number): number {
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) return 0;
+  measureContext.font = `${fontSize}px ${SYNTHETIC_FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * Build a text layer from recognized words (OCR) instead of the PDF's text
+ * content: one transparent span per word, stretched over its box, with
+ * spaces between words and line breaks between lines so selections read
+ * like native text. The result is registered like a PDF.js text layer.
+ */
+export function renderWordTextLayerInto(words: OcrWord[], viewport: any, container: HTMLElement): TextLayerResult | null {
+  clearTextLayer(container);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const textDivs: HTMLElement[] = [];
+  const itemStrs: string[] = [];
+  const items: { str: string; hasEOL: boolean }[] = [];
+
+  words.forEach((word, i) => {
+    const [x0, y0, x1, y1] = word.bbox;
+    const left = x0 * viewport.width;
+    const top = y0 * viewport.height;
+    const width = (x1 - x0) * viewport.width;
+    const fontSize = (y1 - y0) * viewport.height;
+
+    const span = document.createElement('span');
+    span.textContent = word.text;
+    span.style.left = `${left}px`;
+    span.style.top = `${top}px`;
+    span.style.fontSize = `${fontSize}px`;
+    span.style.fontFamily = SYNTHETIC_FONT_FAMILY;
+    const natural = measureTextWidth(word.text, fontSize);
+    if (natural > 0) {
+      span.style.transform = `scaleX(${width / natural})`;
+    }
+    container.appendChild(span);
+
+    const next = words[i + 1];
+    const endOfLine = !next || next.line !== word.line;
+    container.appendChild(endOfLine ? document.createElement('br') : document.createTextNode(' '));
+
+    textDivs.push(span);
+    itemStrs.push(word.text);
+    items.push({ str: word.text, hasEOL: endOfLine });
+  });
+
+  const result = { textContent: { items, styles: {} }, textDivs, itemStrs };
+  textLayerResults.set(container, result);
+  return result;
+}
+
+export function isRenderingCancelled(err: unknown): boolean {
+  return !!err && typeof err === 'object' && 'name' in err && (err as any).name === 'RenderingCancelledException';
+}
+
+export interface LinkHandlers {
+  onInternalLink: (dest: any) => void;
+  onExternalLink: (url: string) => void;
+  onNamedAction: (action: string) => void;
+}
+
+/**
+ * Render the page's link annotations as positioned anchors over the canvas.
+ * Internal links, external URLs and named actions (NextPage, ...) are routed
+ * to the handlers. Returns the number of links created.
+ */
+export async function renderLinkLayerInto(
+  page: any,
+  viewport: any,
+  container: HTMLElement,
+  handlers: LinkHandlers
+): Promise<number> {
+  clearTextLayer(container);
+
+  const annotations = await page.getAnnotations({ intent: 'display' });
+  let count = 0;
+
+  for (const annotation of annotations || []) {
+    if (annotation.subtype !== 'Link' || !annotation.rect) continue;
+
+    const link = document.createElement('a');
+
+    if (annotation.url) {
+      const url: string = annotation.url;
+      link.href = url;
+      link.title = url;
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        handlers.onExternalLink(url);
+      });
+    } else if (annotation.dest) {
+      const dest = annotation.dest;
+      link.href = '#';
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        handlers.onInternalLink(dest);
+      });
+    } else if (annotation.action) {
+      const action: string = annotation.action;
+      link.href = '#';
+      link.title = action;
+      link.addEventListener('click', (e) => {
+        e.preventDefault();
+        handlers.onNamedAction(action);
+      });
+    } else {
+      continue;
+    }
+
+    const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect);
+    link.style.left = `${Math.min(x1, x2)}px`;
+    link.style.top = `${Math.min(y1, y2)}px`;
+    link.style.width = `${Math.abs(x2 - x1)}px`;
+    link.style.height = `${Math.abs(y2 - y1)}px`;
+
+    container.appendChild(link);
+    count++;
+  }
+
+  return count;
+}
@@ -0,0 +1,44 @@
+/**
+ * Document permissions
+ * Encrypted PDFs can restrict what a viewer may do with them. PDF.js reports
+ * the granted flags; documents without restrictions report null.
+ */
+
+// PDF.js PermissionFlag values
+const PERMISSION_FLAGS = {
+  MODIFY_ANNOTATIONS: 0x20,
+  COPY: 0x10,
+  FILL_INTERACTIVE_FORMS: 0x100,
+};
+
+export interface DocumentPermissions {
+  // Copying text, and features that keep copies of it (highlights, notes)
+  copy: boolean;
+  fillForms: boolean;
+}
+
+export const ALL_PERMISSIONS: DocumentPermissions = {
+  copy: true,
+  fillForms: true,
+};
+
+export async function loadDocumentPermissions(pdfDoc: any): Promise<DocumentPermissions> {
+  let flags: number[] | null = null;
+  try {
+    flags = await pdfDoc.getPermissions();
+  } catch (err) {
+    console.warn('[Permissions] Could not read permissions:', err);
+  }
+  if (!flags) {
+    return ALL_PERMISSIONS;
+  }
+
+  const granted = new Set(flags);
+  const permissions = {
+    copy: granted.has(PERMISSION_FLAGS.COPY),
+    // Either flag allows filling in existing fields
+    fillForms: granted.has(PERMISSION_FLAGS.FILL_INTERACTIVE_FORMS) || granted.has(PERMISSION_FLAGS.MODIFY_ANNOTATIONS),
+  };
+  console.log('[Permissions] Restricted document:', permissions);
+  return permissions;
+}
@@ -0,0 +1,191 @@
+import { SearchOptions, SearchHit, HighlightRange } from '@/types/pdf';
+
+// Stop collecting after this many hits so huge documents stay responsive
+export const MAX_SEARCH_HITS = 1000;
+
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Plain text of one page plus where each text item starts in it, so a match
+ * can be mapped back onto the text layer spans PDF.js created for those items.
+ */
+export interface PageTextIndex {
+  text: string;
+  itemStarts: number[];
+  itemStrs: string[];
+}
+
+const pageTextCache = new WeakMap<object, Map<number, PageTextIndex>>();
+
+/**
+ * Build the searchable text of a page from getTextContent().
+ * Only items with a `str` are kept, matching the spans renderTextLayer creates.
+ */
+export function buildPageTextIndex(textContent: any): PageTextIndex {
+  let text = '';
+  const itemStarts: number[] = [];
+  const itemStrs: string[] = [];
+
+  for (const item of textContent?.items || []) {
+    if (typeof item.str !== 'string') {
+      continue;
+    }
+    itemStarts.push(text.length);
+    itemStrs.push(item.str);
+    text += item.str;
+    if (item.hasEOL) {
+      text += ' ';
+    }
+  }
+
+  return { text, itemStarts, itemStrs };
+}
+
+export async function getPageTextIndex(pdfDoc: any, pageNumber: number): Promise<PageTextIndex> {
+  let docCache = pageTextCache.get(pdfDoc);
+  if (!docCache) {
+    docCache = new Map();
+    pageTextCache.set(pdfDoc, docCache);
+  }
+
+  const cached = docCache.get(pageNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const page = await pdfDoc.getPage(pageNumber);
+  const textContent = await page.getTextContent();
+  const index = buildPageTextIndex(textContent);
+  docCache.set(pageNumber, index);
+  return index;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Turn a query and options into a global RegExp.
+ * Throws an Error with a readable message if the regex is invalid.
+ */
+export function buildSearchPattern(query: string, options: SearchOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query);
+
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+
+  const flags = options.caseSensitive ? 'gu' : 'giu';
+
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new Error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ');
+}
+
+/**
+ * Map a [start, end) range of the page text onto the text items it covers.
+ */
+export function rangesForMatch(index: PageTextIndex, start: number, end: number): HighlightRange[] {
+  const ranges: HighlightRange[] = [];
+
+  for (let i = 0; i < index.itemStarts.length; i++) {
+    const itemStart = index.itemStarts[i];
+    const itemEnd = itemStart + index.itemStrs[i].length;
+
+    if (itemEnd <= start) continue;
+    if (itemStart >= end) break;
+
+    const rangeStart = Math.max(start, itemStart) - itemStart;
+    const rangeEnd = Math.min(end, itemEnd) - itemStart;
+    if (rangeEnd > rangeStart) {
+      ranges.push({ itemIndex: i, start: rangeStart, end: rangeEnd });
+    }
+  }
+
+  return ranges;
+}
+
+export function findMatchesInPage(
+  index: PageTextIndex,
+  pattern: RegExp,
+  pageNumber: number,
+  limit: number = MAX_SEARCH_HITS
+): SearchHit[] {
+  const hits: SearchHit[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while (hits.length < limit && (match = pattern.exec(index.text)) !== null) {
+    // Zero-length matches (e.g. /a*/) would loop forever
+    if (match[0].length === 0) {
+      pattern.lastIndex += 1;
+      continue;
+    }
+
+    const start = match.index;
+    const end = start + match[0].length;
+    const ranges = rangesForMatch(index, start, end);
+    if (ranges.length === 0) continue;
+
+    hits.push({
+      id: `${pageNumber}:${start}`,
+      pageNumber,
+      match: match[0],
+      before: collapseWhitespace(index.text.slice(Math.max(0, start - SNIPPET_CONTEXT), start)).trimStart(),
+      after: collapseWhitespace(index.text.slice(end, end + SNIPPET_CONTEXT)).trimEnd(),
+      ranges,
+    });
+  }
+
+  return hits;
+}
+
+interface SearchDocumentOptions {
+  isCancelled?: () => boolean;
+  onProgress?: (pagesSearched: number, numPages: number) => void;
+}
+
+/**
+ * Walk every page's text content and collect matches in page order.
+ * Returns null if the search was cancelled before it finished.
+ */
+export async function searchDocument(
+  pdfDoc: any,
+  query: string,
+  options: SearchOptions,
+  { isCancelled, onProgress }: SearchDocumentOptions = {}
+): Promise<SearchHit[] | null> {
+  const pattern = buildSearchPattern(query, options);
+  const hits: SearchHit[] = [];
+
+  console.log('[Search] Searching', pdfDoc.numPages, 'pages for:', query, options);
+
+  for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+    if (isCancelled?.()) {
+      console.log('[Search] Search cancelled at page', pageNumber);
+      return null;
+    }
+
+    const index = await getPageTextIndex(pdfDoc, pageNumber);
+    hits.push(...findMatchesInPage(index, pattern, pageNumber, MAX_SEARCH_HITS - hits.length));
+    onProgress?.(pageNumber, pdfDoc.numPages);
+
+    if (hits.length >= MAX_SEARCH_HITS) {
+      console.log('[Search] Hit limit reached at page', pageNumber);
+      break;
+    }
+  }
+
+  if (isCancelled?.()) {
+    return null;
+  }
+
+  console.log('[Search] Found', hits.length, 'hits');
+  return hits;
+}
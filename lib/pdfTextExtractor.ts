@@ -1,11 +1,173 @@
 import { WordRect } from '@/types/pdf';
 
-const DEBUG = true; // Enable debug logging
+const DEBUG = false; // Enable debug logging
 
+// Used when a font's style doesn't report its ascent/descent
+const DEFAULT_ASCENT = 0.8;
+const DEFAULT_DESCENT = -0.2;
+
+// Letters and digits, plus apostrophes and hyphens inside words
+const WORD_CHAR = /[\p{L}\p{N}\p{M}'’-]/u;
+
+// Width of `text` set in a CSS `font` (e.g. "100px serif"), in any unit
+export type MeasureText = (text: string, font: string) => number;
+
+export interface ExtractOptions {
+  // page.commonObjs: loaded fonts, whose faces give per-character widths.
+  // Without it (or before the page is rendered) the style's generic font
+  // family is measured instead.
+  fonts?: any;
+  // Keep whole tokens, punctuation included ("world," instead of "world"),
+  // for consumers that rebuild running text (see pdfLayout.ts)
+  keepPunctuation?: boolean;
+  // Character widths; canvas text metrics by default
+  measure?: MeasureText;
+}
+
+type Point = [number, number];
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (!measureContext && typeof document !== 'undefined') {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+  return measureContext;
+}
+
+const measureWithCanvas: MeasureText = (text, font) => {
+  const ctx = getMeasureContext();
+  if (!ctx) return 0;
+  ctx.font = font;
+  return ctx.measureText(text).width;
+};
+
+function fontFamilyFor(item: any, style: any, fonts: any): string {
+  try {
+    if (fonts?.has?.(item.fontName)) {
+      const font = fonts.get(item.fontName);
+      // PDF.js registers embedded fonts with the FontFace API under loadedName
+      if (font?.loadedName && !font.missingFile) {
+        return `"${font.loadedName}", ${style?.fontFamily || 'sans-serif'}`;
+      }
+    }
+  } catch (err) {
+    // Font not resolved yet; fall back to the generic family
+  }
+  return style?.fontFamily || 'sans-serif';
+}
+
+/**
+ * Where each character of `str` starts along the text, as fractions of the
+ * item's advance: offsets[i] is the start of character i, offsets[length]
+ * is 1. Characters are measured in the item's font and scaled to the width
+ * PDF.js reports, so proportional fonts line up; if nothing can be measured
+ * every character gets the same share.
+ */
+export function characterOffsets(str: string, fontFamily: string, measure: MeasureText = measureWithCanvas): number[] {
+  const chars = Array.from(str);
+  const widths = chars.map((char) => measure(char, `100px ${fontFamily}`));
+
+  let total = widths.reduce((sum, w) => sum + w, 0);
+  if (!(total > 0)) {
+    widths.fill(1);
+    total = chars.length;
+  }
+
+  // Offsets are indexed by UTF-16 position so they match String.indexOf
+  const offsets: number[] = new Array(str.length + 1).fill(0);
+  let position = 0;
+  let advance = 0;
+  chars.forEach((char, i) => {
+    for (let unit = 0; unit < char.length; unit++) {
+      offsets[position + unit] = advance / total;
+    }
+    position += char.length;
+    advance += widths[i];
+  });
+  offsets[str.length] = 1;
+  return offsets;
+}
+
+function normalize([x, y]: Point): Point {
+  const length = Math.hypot(x, y);
+  return length > 0 ? [x / length, y / length] : [0, 0];
+}
+
+/**
+ * Corners (in PDF user space) of the box covering [start, end) of a text
+ * item, as fractions of its advance. Horizontal text advances along the
+ * transform's x axis and spans descent..ascent across it; vertical text
+ * advances downward and is centred on its origin.
+ */
+function segmentCorners(item: any, style: any, start: number, end: number): Point[] {
+  const [a, b, c, d, e, f] = item.transform;
+  const origin: Point = [e, f];
+  const xAxis = normalize([a, b]);
+  const yAxis = normalize([c, d]);
+  const fontHeight = Math.hypot(c, d) || Math.abs(item.height) || 1;
+
+  const at = (along: Point, alongDistance: number, across: Point, acrossDistance: number): Point => [
+    origin[0] + along[0] * alongDistance + across[0] * acrossDistance,
+    origin[1] + along[1] * alongDistance + across[1] * acrossDistance,
+  ];
+
+  if (style?.vertical) {
+    // Glyphs run down the page; item.height is the advance, item.width the column width
+    const down: Point = [-yAxis[0], -yAxis[1]];
+    const length = Math.abs(item.height) || fontHeight * (item.str?.length || 1);
+    const half = (Math.abs(item.width) || Math.hypot(a, b)) / 2;
+    return [
+      at(down, start * length, xAxis, -half),
+      at(down, start * length, xAxis, half),
+      at(down, end * length, xAxis, half),
+      at(down, end * length, xAxis, -half),
+    ];
+  }
+
+  const length = Math.abs(item.width);
+  const ascent = (typeof style?.ascent === 'number' && style.ascent > 0 ? style.ascent : DEFAULT_ASCENT) * fontHeight;
+  const descent = (typeof style?.descent === 'number' && style.descent < 0 ? style.descent : DEFAULT_DESCENT) * fontHeight;
+  return [
+    at(xAxis, start * length, yAxis, descent),
+    at(xAxis, end * length, yAxis, descent),
+    at(xAxis, end * length, yAxis, ascent),
+    at(xAxis, start * length, yAxis, ascent),
+  ];
+}
+
+function toWordRect(word: string, corners: Point[], viewport: any): WordRect {
+  // The viewport transform handles page rotation, scale and the flipped y axis
+  const points = corners.map(([x, y]) => viewport.convertToViewportPoint(x, y) as Point);
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const width = Math.max(...xs) - x;
+  const height = Math.max(...ys) - y;
+
+  return {
+    word,
+    x,
+    y,
+    width,
+    height,
+    centerX: x + width / 2,
+    centerY: y + height / 2,
+    quad: points.flat(),
+  };
+}
+
+/**
+ * Word boxes in viewport pixels for every word of a page's text content.
+ * Boxes follow the item's full transform (rotation, skew, vertical writing)
+ * and the viewport; `x/y/width/height` is the axis-aligned bounding box and
+ * `quad` the exact corners.
+ */
 export function extractWordsFromTextContent(
   textContent: any,
   viewport: any,
-  scale: number = 1
+  options: ExtractOptions = {}
 ): WordRect[] {
   const words: WordRect[] = [];
 
@@ -16,87 +178,58 @@ export function extractWordsFromTextContent(
 
   if (DEBUG) {
     console.log('[TextExtractor] Extracting from', textContent.items.length, 'text items');
-    console.log('[TextExtractor] Viewport:', { width: viewport.width, height: viewport.height, scale });
+    console.log('[TextExtractor] Viewport:', {
+      width: viewport.width,
+      height: viewport.height,
+      scale: viewport.scale,
+      rotation: viewport.rotation,
+    });
   }
 
-  for (const item of textContent.items) {
-    if (typeof item.str !== 'string' || !item.str.trim()) {
-      continue;
+  textContent.items.forEach((item: any, itemIndex: number) => {
+    if (typeof item.str !== 'string' || !item.str.trim() || !Array.isArray(item.transform)) {
+      return;
     }
 
-    // Get transform values - PDF.js provides a 6-element transform matrix
-    // [a, b, c, d, e, f] where:
-    // - a, d are horizontal and vertical scaling
-    // - e, f are x and y translation (position)
-    const transform = item.transform;
-    const scaleX = transform[0];
-    const scaleY = transform[3];
-    const tx = transform[4];
-    const ty = transform[5];
-
-    // Calculate font size from transform matrix (use absolute values)
-    const fontSize = Math.abs(scaleY);
-
-    // Minimum height fallback
-    const minHeight = 12;
-    const effectiveHeight = Math.max(fontSize, minHeight);
-
-    // Split text into words, handling multiple spaces
-    const textWords = item.str.split(/\s+/).filter((w: string) => w.trim().length > 0);
-
-    // Character width approximation based on item width and string length
-    const totalWidth = item.width;
-    const charWidth = item.str.length > 0 ? totalWidth / item.str.length : 0;
-
-    let charOffset = 0;
-
-    for (const word of textWords) {
-      // Skip whitespace-only or punctuation-only tokens
-      const cleanWord = word.replace(/[^\w'-]/g, '');
-      if (cleanWord.length === 0) {
-        charOffset += word.length + 1; // +1 for space
-        continue;
-      }
+    const style = textContent.styles?.[item.fontName];
+    const offsets = characterOffsets(item.str, fontFamilyFor(item, style, options.fonts), options.measure);
 
-      // Find word position in original string
-      const wordIndexInStr = item.str.indexOf(word, charOffset);
-      if (wordIndexInStr === -1) {
-        charOffset += word.length + 1;
-        continue;
+    // Each run of non-space characters is a token; its box covers only the
+    // word characters, so quotes and trailing punctuation are left out
+    const tokenPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(item.str))) {
+      const token = match[0];
+      const chars = Array.from(token);
+      let first = 0;
+      let last = chars.length;
+      if (!options.keepPunctuation) {
+        while (first < last && !WORD_CHAR.test(chars[first])) first++;
+        while (last > first && !WORD_CHAR.test(chars[last - 1])) last--;
+        if (first === last) continue;
       }
 
-      // Calculate word position and dimensions
-      const wordStartX = tx + (wordIndexInStr * charWidth);
-      const wordWidth = charWidth * word.length;
-
-      // Convert from PDF coordinates (bottom-left origin) to canvas coordinates (top-left origin)
-      // PDF y grows upward, canvas y grows downward
-      const x = wordStartX;
-      const y = viewport.height - ty - effectiveHeight;
-      const width = wordWidth;
-      const height = effectiveHeight;
+      const text = options.keepPunctuation
+        ? token
+        : chars.slice(first, last).join('').replace(/[^\p{L}\p{N}\p{M}'’-]/gu, '');
+      if (!text) continue;
 
+      const start = match.index + chars.slice(0, first).join('').length;
+      const end = match.index + chars.slice(0, last).join('').length;
       words.push({
-        word: cleanWord,
-        x,
-        y,
-        width,
-        height,
-        centerX: x + width / 2,
-        centerY: y + height / 2,
+        ...toWordRect(text, segmentCorners(item, style, offsets[start], offsets[end]), viewport),
+        itemIndex,
+        start,
+        end,
       });
-
-      charOffset = wordIndexInStr + word.length + 1;
     }
-  }
-
-  const filteredWords = words.filter((w) => w.word.length > 0);
+  });
 
   if (DEBUG) {
-    console.log('[TextExtractor] Extracted', filteredWords.length, 'word rects');
-    if (filteredWords.length > 0) {
+    console.log('[TextExtractor] Extracted', words.length, 'word rects');
+    if (words.length > 0) {
       console.log('[TextExtractor] Sample rects (first 5):');
-      filteredWords.slice(0, 5).forEach((w, i) => {
+      words.slice(0, 5).forEach((w, i) => {
         console.log(`  [${i}]`, w.word, {
           x: w.x.toFixed(1),
           y: w.y.toFixed(1),
@@ -107,7 +240,32 @@ export function extractWordsFromTextContent(
     }
   }
 
-  return filteredWords;
+  return words;
+}
+
+// Whether (x, y) lies inside the quad, grown by `threshold` pixels
+function quadContains(quad: number[], x: number, y: number, threshold: number): boolean {
+  const points: Point[] = [];
+  for (let i = 0; i < quad.length; i += 2) points.push([quad[i], quad[i + 1]]);
+
+  // Winding of the corners, so "inside" has the same sign for every edge
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  const orientation = Math.sign(area) || 1;
+
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    const edgeLength = Math.hypot(x2 - x1, y2 - y1) || 1;
+    // Signed distance of the point from this edge, positive inside
+    const distance = (((x2 - x1) * (y - y1) - (y2 - y1) * (x - x1)) / edgeLength) * orientation;
+    if (distance < -threshold) return false;
+  }
+  return true;
 }
 
 export function findWordAtPoint(
@@ -120,14 +278,16 @@ export function findWordAtPoint(
     console.log('[TextExtractor] Finding word at point:', { x: x.toFixed(1), y: y.toFixed(1), threshold });
   }
 
-  // First try exact containment with threshold
+  // First try exact containment with threshold (the exact corners for
+  // rotated or skewed words, which their bounding box would overstate)
   for (const word of words) {
-    if (
-      x >= word.x - threshold &&
-      x <= word.x + word.width + threshold &&
-      y >= word.y - threshold &&
-      y <= word.y + word.height + threshold
-    ) {
+    const contained = word.quad
+      ? quadContains(word.quad, x, y, threshold)
+      : x >= word.x - threshold &&
+        x <= word.x + word.width + threshold &&
+        y >= word.y - threshold &&
+        y <= word.y + word.height + threshold;
+    if (contained) {
       if (DEBUG) {
         console.log('[TextExtractor] Found word by containment:', word.word, {
           rect: { x: word.x.toFixed(1), y: word.y.toFixed(1), w: word.width.toFixed(1), h: word.height.toFixed(1) }
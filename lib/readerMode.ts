@@ -0,0 +1,159 @@
+import { LayoutBlock, LayoutWord, PageLayout } from '@/types/pdf';
+
+/**
+ * Reader mode
+ * Re-typesets a page's layout (lib/pdfLayout.ts) as reflowable elements:
+ * headings from larger type, lists from bullet or number markers, and
+ * paragraphs for the rest. Each element remembers where its text starts on
+ * the page so the reader can switch back to the canvas at the same place.
+ * The typography settings are kept in localStorage.
+ */
+
+export type ReaderFont = 'serif' | 'sans' | 'mono';
+
+export interface ReaderSettings {
+  font: ReaderFont;
+  fontSize: number; // px
+  lineHeight: number;
+  width: number; // Line length in characters
+}
+
+export const READER_FONTS: { id: ReaderFont; label: string; family: string }[] = [
+  { id: 'serif', label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+  { id: 'sans', label: 'Sans-serif', family: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif' },
+  { id: 'mono', label: 'Monospace', family: 'ui-monospace, Menlo, Consolas, monospace' },
+];
+
+export const MIN_READER_FONT_SIZE = 12;
+export const MAX_READER_FONT_SIZE = 32;
+export const READER_LINE_HEIGHTS = [1.2, 1.5, 1.8, 2.1];
+export const READER_WIDTHS = [45, 60, 75, 90];
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  font: 'serif',
+  fontSize: 18,
+  lineHeight: 1.5,
+  width: 60,
+};
+
+const STORAGE_KEY = 'padf:reader-settings';
+
+// Type this much larger than the page's body text makes a heading
+const HEADING_RATIOS: { ratio: number; level: 2 | 3 | 4 }[] = [
+  { ratio: 1.6, level: 2 },
+  { ratio: 1.3, level: 3 },
+  { ratio: 1.15, level: 4 },
+];
+// Longer blocks are large-print paragraphs (pull quotes, title pages), not headings
+const MAX_HEADING_LENGTH = 200;
+
+const BULLET_MARKER = /^[•◦▪▫‣⁃∙·*–-]$/;
+const NUMBER_MARKER = /^\(?(\d{1,3})[.)]$/;
+
+export type ReaderElement =
+  | { kind: 'heading'; level: 2 | 3 | 4; words: LayoutWord[]; top: number }
+  | { kind: 'paragraph'; words: LayoutWord[]; top: number }
+  | { kind: 'list'; ordered: boolean; start: number; items: LayoutWord[][]; top: number };
+
+export function loadReaderSettings(): ReaderSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_READER_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      font: READER_FONTS.some((f) => f.id === parsed?.font) ? parsed.font : DEFAULT_READER_SETTINGS.font,
+      fontSize:
+        typeof parsed?.fontSize === 'number'
+          ? Math.min(MAX_READER_FONT_SIZE, Math.max(MIN_READER_FONT_SIZE, parsed.fontSize))
+          : DEFAULT_READER_SETTINGS.fontSize,
+      lineHeight: READER_LINE_HEIGHTS.includes(parsed?.lineHeight) ? parsed.lineHeight : DEFAULT_READER_SETTINGS.lineHeight,
+      width: READER_WIDTHS.includes(parsed?.width) ? parsed.width : DEFAULT_READER_SETTINGS.width,
+    };
+  } catch (err) {
+    console.warn('[Reader] Failed to read settings:', err);
+    return DEFAULT_READER_SETTINGS;
+  }
+}
+
+export function saveReaderSettings(settings: ReaderSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('[Reader] Failed to save settings:', err);
+  }
+}
+
+export function getReaderFontFamily(font: ReaderFont): string {
+  return (READER_FONTS.find((f) => f.id === font) || READER_FONTS[0]).family;
+}
+
+function listMarker(word: LayoutWord | undefined): { ordered: boolean; number: number } | null {
+  if (!word) return null;
+  if (BULLET_MARKER.test(word.text)) return { ordered: false, number: 0 };
+  const numbered = NUMBER_MARKER.exec(word.text);
+  return numbered ? { ordered: true, number: Number(numbered[1]) } : null;
+}
+
+function headingLevel(block: LayoutBlock, bodyFontSize: number): 2 | 3 | 4 | null {
+  if (bodyFontSize <= 0 || block.text.length > MAX_HEADING_LENGTH) return null;
+  const match = HEADING_RATIOS.find(({ ratio }) => block.fontSize >= bodyFontSize * ratio);
+  return match ? match.level : null;
+}
+
+/**
+ * Headings, paragraphs and lists of a page, in reading order. A list item
+ * whose wrapped lines hang under its text ends up as a block of its own in
+ * the layout; it is put back into the item it continues.
+ */
+export function buildReaderElements(layout: PageLayout): ReaderElement[] {
+  const elements: ReaderElement[] = [];
+  // Left edge of the last list item's text, for hanging continuation lines
+  let listTextLeft: number | null = null;
+  let listColumn = 0;
+
+  for (const block of layout.blocks) {
+    const top = block.box.y / layout.height;
+    const previous = elements[elements.length - 1];
+    const firstMarker = listMarker(block.lines[0]?.words[0]);
+
+    if (firstMarker) {
+      const items: LayoutWord[][] = [];
+      for (const line of block.lines) {
+        const marker = listMarker(line.words[0]);
+        if (marker && marker.ordered === firstMarker.ordered) {
+          items.push(line.words.slice(1));
+          listTextLeft = line.words[1]?.box.x ?? null;
+        } else {
+          items[items.length - 1].push(...line.words);
+        }
+      }
+      listColumn = block.column;
+
+      if (previous?.kind === 'list' && previous.ordered === firstMarker.ordered) {
+        previous.items.push(...items);
+      } else {
+        elements.push({ kind: 'list', ordered: firstMarker.ordered, start: firstMarker.number || 1, items, top });
+      }
+      continue;
+    }
+
+    const words = block.lines.flatMap((line) => line.words);
+    const level = headingLevel(block, layout.bodyFontSize);
+
+    if (
+      !level &&
+      previous?.kind === 'list' &&
+      listTextLeft !== null &&
+      block.column === listColumn &&
+      Math.abs(block.box.x - listTextLeft) <= block.fontSize
+    ) {
+      previous.items[previous.items.length - 1].push(...words);
+      continue;
+    }
+
+    listTextLeft = null;
+    elements.push(level ? { kind: 'heading', level, words, top } : { kind: 'paragraph', words, top });
+  }
+
+  return elements;
+}
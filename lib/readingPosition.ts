@@ -0,0 +1,39 @@
+/**
+ * Where the reader left each document: page and how far down that page,
+ * persisted per document fingerprint (zoom is kept by lib/zoom.ts).
+ */
+
+export interface ReadingPosition {
+  page: number;
+  // Fraction of the page scrolled past the top of the view (0-1)
+  offset: number;
+  updatedAt: number;
+}
+
+const STORAGE_PREFIX = 'padf:position:';
+
+export function loadReadingPosition(docKey: string): ReadingPosition | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + docKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (parsed && Number.isInteger(parsed.page) && parsed.page >= 1) {
+      return {
+        page: parsed.page,
+        offset: typeof parsed.offset === 'number' ? Math.min(1, Math.max(0, parsed.offset)) : 0,
+        updatedAt: typeof parsed.updatedAt === 'number' ? parsed.updatedAt : 0,
+      };
+    }
+  } catch (err) {
+    console.warn('[ReadingPosition] Failed to read saved position:', err);
+  }
+  return null;
+}
+
+export function saveReadingPosition(docKey: string, position: ReadingPosition) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + docKey, JSON.stringify(position));
+  } catch (err) {
+    console.warn('[ReadingPosition] Failed to save position:', err);
+  }
+}
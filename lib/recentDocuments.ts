@@ -0,0 +1,120 @@
+import { RecentDocument } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/indexedDb';
+
+/**
+ * Recently opened documents
+ * Files opened through the File System Access API are remembered by their
+ * handle; anything else is kept as a copy in IndexedDB, within a size quota.
+ */
+
+const STORE = 'recentDocuments';
+
+export const MAX_RECENT_DOCUMENTS = 12;
+// Larger files are listed but not copied; they have to be opened again from disk
+export const MAX_STORED_FILE_BYTES = 50 * 1024 * 1024;
+// Total size of stored copies; the oldest copies are dropped beyond this
+export const MAX_STORED_TOTAL_BYTES = 150 * 1024 * 1024;
+
+/**
+ * All recent documents, most recently opened first
+ */
+export async function listRecentDocuments(): Promise<RecentDocument[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const documents = await requestToPromise<RecentDocument[]>(store.getAll());
+  return documents.sort((a, b) => b.openedAt - a.openedAt);
+}
+
+/**
+ * Add or refresh a document in the list and enforce the count and size quotas.
+ */
+export async function rememberRecentDocument(
+  key: string,
+  file: File,
+  numPages: number,
+  handle: FileSystemFileHandle | null
+): Promise<void> {
+  const entry: RecentDocument = {
+    key,
+    name: file.name,
+    size: file.size,
+    numPages,
+    openedAt: Date.now(),
+    handle,
+    blob: !handle && file.size <= MAX_STORED_FILE_BYTES ? file : null,
+  };
+
+  const existing = (await listRecentDocuments()).filter((d) => d.key !== key);
+  // A copy stored earlier is still good if the file is reopened without one
+  if (!entry.handle && !entry.blob) {
+    const previous = await getRecentDocument(key);
+    entry.handle = previous?.handle || null;
+    entry.blob = previous?.blob || null;
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  store.put(entry);
+
+  let storedBytes = entry.blob?.size || 0;
+  existing.forEach((doc, i) => {
+    if (i >= MAX_RECENT_DOCUMENTS - 1) {
+      store.delete(doc.key);
+      return;
+    }
+    if (doc.blob) {
+      storedBytes += doc.blob.size;
+      if (storedBytes > MAX_STORED_TOTAL_BYTES) {
+        console.log('[RecentDocuments] Dropping stored copy of', doc.name, '(quota)');
+        storedBytes -= doc.blob.size;
+        store.put({ ...doc, blob: null });
+      }
+    }
+  });
+
+  await transactionDone(tx);
+  console.log('[RecentDocuments] Remembered', file.name, handle ? '(file handle)' : entry.blob ? '(stored copy)' : '(not stored)');
+}
+
+async function getRecentDocument(key: string): Promise<RecentDocument | null> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return (await requestToPromise<RecentDocument | undefined>(store.get(key))) || null;
+}
+
+export async function removeRecentDocument(key: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(key);
+  await transactionDone(tx);
+}
+
+export function canReopen(doc: RecentDocument): boolean {
+  return !!doc.handle || !!doc.blob;
+}
+
+/**
+ * Get the file back. Handles need the user's permission again after a
+ * reload, so call this from a click handler.
+ */
+export async function openRecentDocument(doc: RecentDocument): Promise<File> {
+  if (doc.handle) {
+    const handle: any = doc.handle;
+    const options = { mode: 'read' };
+    if (
+      typeof handle.queryPermission === 'function' &&
+      (await handle.queryPermission(options)) !== 'granted' &&
+      (await handle.requestPermission(options)) !== 'granted'
+    ) {
+      throw new Error(`Permission to read ${doc.name} was denied.`);
+    }
+    return await doc.handle.getFile();
+  }
+
+  if (doc.blob) {
+    return new File([doc.blob], doc.name, { type: 'application/pdf' });
+  }
+
+  throw new Error(`${doc.name} was too large to keep a copy. Open it again from disk to continue reading.`);
+}
@@ -0,0 +1,245 @@
+import { DefinitionData, ReviewCard, ReviewLogEntry, WordContext } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone, createRecordId } from '@/lib/indexedDb';
+
+/**
+ * Spaced-repetition review deck
+ * Every successful lookup becomes a flashcard, scheduled with SM-2: each
+ * review is graded 0-5; grades below 3 restart the card, higher grades grow
+ * the interval by the card's ease factor, which itself adapts to the grades.
+ * Cards keep their full definition so reviewing works offline.
+ */
+
+const CARDS = 'reviewCards';
+const LOG = 'reviewLog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const INITIAL_EASE = 2.5;
+export const MIN_EASE = 1.3;
+
+export interface Grade {
+  value: number;
+  label: string;
+  key: string;
+}
+
+// Grades offered in review mode (SM-2 quality 0-5)
+export const GRADES: Grade[] = [
+  { value: 1, label: 'Again', key: '1' },
+  { value: 3, label: 'Hard', key: '2' },
+  { value: 4, label: 'Good', key: '3' },
+  { value: 5, label: 'Easy', key: '4' },
+];
+
+export interface ReviewStats {
+  totalCards: number;
+  dueToday: number;
+  newCards: number;
+  reviewedToday: number;
+  totalReviews: number;
+  // Share of reviews in the last 30 days graded 3 or better, null without reviews
+  retention: number | null;
+  // Reviews per day, oldest first, for the last HISTORY_DAYS days
+  history: { day: number; count: number }[];
+  streak: number;
+}
+
+export const HISTORY_DAYS = 14;
+
+export function startOfDay(time: number): number {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+export function endOfDay(time: number): number {
+  return startOfDay(time) + DAY_MS - 1;
+}
+
+export function cardId(word: string, language: string): string {
+  return `${language}:${word}`;
+}
+
+/**
+ * SM-2: the next scheduling state of a card after a review graded `grade`.
+ */
+export function scheduleCard(card: ReviewCard, grade: number, now: number = Date.now()): ReviewCard {
+  let { easeFactor, interval, repetitions, lapses } = card;
+
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+    if (card.repetitions > 0) lapses++;
+  } else {
+    repetitions++;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * easeFactor);
+  }
+
+  easeFactor = Math.max(MIN_EASE, easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  return {
+    ...card,
+    easeFactor,
+    interval,
+    repetitions,
+    lapses,
+    due: startOfDay(now) + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+export function isDue(card: ReviewCard, now: number = Date.now()): boolean {
+  return card.due <= endOfDay(now);
+}
+
+async function getAll<T>(storeName: string): Promise<T[]> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise<T[]>(store.getAll());
+}
+
+/**
+ * Add a looked-up word to the deck. A word already in the deck keeps its
+ * schedule; only its definition is refreshed and a missing sentence filled in.
+ */
+export async function recordLookup(data: DefinitionData, context: WordContext | null): Promise<void> {
+  if (data.error) return;
+
+  const language = data.language || 'en';
+  const id = cardId(data.word, language);
+  const now = Date.now();
+
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction(CARDS, 'readwrite');
+    const store = tx.objectStore(CARDS);
+    const existing = await requestToPromise<ReviewCard | undefined>(store.get(id));
+
+    const card: ReviewCard = existing
+      ? {
+          ...existing,
+          data,
+          sentence: existing.sentence || context?.sentence || null,
+          documentName: existing.documentName || context?.documentName || '',
+          pageNumber: existing.pageNumber || context?.pageNumber || 0,
+        }
+      : {
+          id,
+          word: data.word,
+          language,
+          data,
+          sentence: context?.sentence ?? null,
+          documentName: context?.documentName || '',
+          pageNumber: context?.pageNumber || 0,
+          easeFactor: INITIAL_EASE,
+          interval: 0,
+          repetitions: 0,
+          lapses: 0,
+          due: now,
+          createdAt: now,
+          lastReviewedAt: null,
+        };
+
+    store.put(card);
+    await transactionDone(tx);
+    if (!existing) {
+      console.log('[ReviewDeck] Added card:', id);
+    }
+  } catch (err) {
+    console.warn('[ReviewDeck] Failed to record lookup:', err);
+  }
+}
+
+/**
+ * Cards due by the end of today, the most overdue first
+ */
+export async function getDueCards(now: number = Date.now()): Promise<ReviewCard[]> {
+  const cards = await getAll<ReviewCard>(CARDS);
+  return cards.filter((c) => isDue(c, now)).sort((a, b) => a.due - b.due);
+}
+
+export async function countDueCards(now: number = Date.now()): Promise<number> {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(CARDS, 'readonly').objectStore(CARDS).index('due');
+    return await requestToPromise(index.count(IDBKeyRange.upperBound(endOfDay(now))));
+  } catch (err) {
+    console.warn('[ReviewDeck] Failed to count due cards:', err);
+    return 0;
+  }
+}
+
+/**
+ * Grade a card: store its new schedule and log the review.
+ */
+export async function reviewCard(card: ReviewCard, grade: number): Promise<ReviewCard> {
+  const now = Date.now();
+  const next = scheduleCard(card, grade, now);
+  const log: ReviewLogEntry = {
+    id: createRecordId(),
+    cardId: card.id,
+    grade,
+    reviewedAt: now,
+    interval: next.interval,
+    easeFactor: next.easeFactor,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([CARDS, LOG], 'readwrite');
+  tx.objectStore(CARDS).put(next);
+  tx.objectStore(LOG).put(log);
+  await transactionDone(tx);
+
+  console.log(`[ReviewDeck] Reviewed ${card.id} with grade ${grade}, next in ${next.interval}d`);
+  return next;
+}
+
+export async function deleteCard(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(CARDS, 'readwrite');
+  tx.objectStore(CARDS).delete(id);
+  await transactionDone(tx);
+}
+
+export async function getReviewStats(now: number = Date.now()): Promise<ReviewStats> {
+  const [cards, log] = await Promise.all([getAll<ReviewCard>(CARDS), getAll<ReviewLogEntry>(LOG)]);
+
+  const today = startOfDay(now);
+  const recent = log.filter((l) => l.reviewedAt >= now - 30 * DAY_MS);
+  const countsByDay = new Map<number, number>();
+  for (const entry of log) {
+    const day = startOfDay(entry.reviewedAt);
+    countsByDay.set(day, (countsByDay.get(day) || 0) + 1);
+  }
+
+  const history: { day: number; count: number }[] = [];
+  for (let i = HISTORY_DAYS - 1; i >= 0; i--) {
+    // Step back from noon so DST changes don't skip or repeat a day
+    const day = startOfDay(today + DAY_MS / 2 - i * DAY_MS);
+    history.push({ day, count: countsByDay.get(day) || 0 });
+  }
+
+  // Consecutive days with reviews, counting back from today (or yesterday)
+  let streak = 0;
+  let day = countsByDay.has(today) ? today : startOfDay(today - DAY_MS / 2);
+  while (countsByDay.has(day)) {
+    streak++;
+    day = startOfDay(day - DAY_MS / 2);
+  }
+
+  return {
+    totalCards: cards.length,
+    dueToday: cards.filter((c) => isDue(c, now)).length,
+    newCards: cards.filter((c) => c.lastReviewedAt === null).length,
+    reviewedToday: countsByDay.get(today) || 0,
+    totalReviews: log.length,
+    retention: recent.length > 0 ? recent.filter((l) => l.grade >= 3).length / recent.length : null,
+    history,
+    streak,
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Script loader for libraries that aren't bundled (PDF.js, the OCR engine)
+ */
+
+// A source that never answers shouldn't keep the next one waiting forever
+const SCRIPT_TIMEOUT_MS = 15000;
+
+/**
+ * Add a classic <script> to the page; resolves once it has run.
+ */
+export function loadScript(url: string, timeoutMs: number = SCRIPT_TIMEOUT_MS): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    const timeout = setTimeout(() => {
+      script.remove();
+      reject(new Error(`Timed out loading ${url}`));
+    }, timeoutMs);
+
+    script.src = url;
+    script.async = true;
+    script.onload = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    script.onerror = () => {
+      clearTimeout(timeout);
+      script.remove();
+      reject(new Error(`Failed to load ${url}`));
+    };
+    document.head.appendChild(script);
+  });
+}
@@ -0,0 +1,71 @@
+import { DICTIONARY_PROVIDERS } from '@/lib/dictionaryProviders';
+
+/**
+ * Reader settings persisted in localStorage
+ */
+
+const SETTINGS_KEY = 'padf:settings';
+
+export interface ProviderSetting {
+  id: string;
+  enabled: boolean;
+}
+
+export interface ReaderSettings {
+  // Lookup order; disabled providers are skipped
+  providers: ProviderSetting[];
+}
+
+export const DEFAULT_SETTINGS: ReaderSettings = {
+  providers: DICTIONARY_PROVIDERS.map((p) => ({ id: p.id, enabled: true })),
+};
+
+/**
+ * Drop providers that no longer exist and append new ones (enabled) so a
+ * stored order survives providers being added or removed.
+ */
+function reconcileProviders(stored: ProviderSetting[]): ProviderSetting[] {
+  const known = new Set(DICTIONARY_PROVIDERS.map((p) => p.id));
+  const seen = new Set<string>();
+  const result: ProviderSetting[] = [];
+
+  for (const entry of stored) {
+    if (entry && known.has(entry.id) && !seen.has(entry.id)) {
+      seen.add(entry.id);
+      result.push({ id: entry.id, enabled: entry.enabled !== false });
+    }
+  }
+  for (const provider of DICTIONARY_PROVIDERS) {
+    if (!seen.has(provider.id)) {
+      result.push({ id: provider.id, enabled: true });
+    }
+  }
+  return result;
+}
+
+export function loadSettings(): ReaderSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      ...DEFAULT_SETTINGS,
+      providers: reconcileProviders(Array.isArray(parsed?.providers) ? parsed.providers : []),
+    };
+  } catch (err) {
+    console.warn('[Settings] Failed to load settings:', err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: ReaderSettings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('[Settings] Failed to save settings:', err);
+  }
+}
+
+export function getEnabledProviderIds(settings: ReaderSettings): string[] {
+  return settings.providers.filter((p) => p.enabled).map((p) => p.id);
+}
@@ -0,0 +1,132 @@
+import { HighlightRange } from '@/types/pdf';
+
+/**
+ * Text layer highlighting
+ * Wraps parts of PDF.js text spans in <span class="highlight"> using the
+ * .textLayer .highlight / .selected styles, the same way the PDF.js viewer does.
+ */
+
+export interface TextLayerHighlight {
+  ranges: HighlightRange[];
+  selected?: boolean;
+  // Extra classes (annotation colours) and a tooltip for the highlight spans
+  className?: string;
+  title?: string;
+}
+
+interface PlacedRange extends HighlightRange {
+  className: string;
+  title?: string;
+}
+
+/**
+ * Restore every span touched by a previous highlight pass to its plain text.
+ */
+export function clearTextHighlights(textDivs: HTMLElement[], itemStrs: string[]) {
+  textDivs.forEach((div, i) => {
+    if (div.childElementCount > 0) {
+      div.textContent = itemStrs[i] ?? div.textContent;
+    }
+  });
+}
+
+/**
+ * Apply highlights to the text layer spans. Returns the first element of
+ * the selected highlight (if any) so the caller can scroll it into view.
+ */
+export function applyTextHighlights(
+  textDivs: HTMLElement[],
+  itemStrs: string[],
+  highlights: TextLayerHighlight[]
+): HTMLElement | null {
+  clearTextHighlights(textDivs, itemStrs);
+
+  const byItem = new Map<number, PlacedRange[]>();
+
+  for (const highlight of highlights) {
+    highlight.ranges.forEach((range, i) => {
+      let className = 'highlight';
+      if (highlight.ranges.length > 1) {
+        className += i === 0 ? ' begin' : i === highlight.ranges.length - 1 ? ' end' : ' middle';
+      }
+      if (highlight.className) {
+        className += ` ${highlight.className}`;
+      }
+      if (highlight.selected) {
+        className += ' selected';
+      }
+
+      const list = byItem.get(range.itemIndex) || [];
+      list.push({ ...range, className, title: highlight.title });
+      byItem.set(range.itemIndex, list);
+    });
+  }
+
+  let selectedEl: HTMLElement | null = null;
+
+  byItem.forEach((ranges, itemIndex) => {
+    const div = textDivs[itemIndex];
+    const str = itemStrs[itemIndex];
+    if (!div || str === undefined) return;
+
+    // Outer ranges first, so a search hit inside a saved highlight nests in it
+    const queue = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const fragment = document.createDocumentFragment();
+    const open: { el: HTMLElement; end: number }[] = [];
+    let cursor = 0;
+
+    const container = (): Node => (open.length > 0 ? open[open.length - 1].el : fragment);
+    const textUpTo = (position: number) => {
+      if (position > cursor) {
+        container().appendChild(document.createTextNode(str.slice(cursor, position)));
+        cursor = position;
+      }
+    };
+    const closeUpTo = (position: number) => {
+      while (open.length > 0 && open[open.length - 1].end <= position) {
+        textUpTo(open[open.length - 1].end);
+        open.pop();
+      }
+    };
+
+    for (let i = 0; i < queue.length; i++) {
+      const range = queue[i];
+      if (range.end <= range.start) continue;
+      closeUpTo(range.start);
+
+      // A range running past the end of the one it starts in is split: the
+      // rest is placed again once that one is closed
+      let end = range.end;
+      const parent = open[open.length - 1];
+      if (parent && end > parent.end) {
+        const rest = { ...range, start: parent.end };
+        let at = i + 1;
+        while (at < queue.length && queue[at].start <= rest.start) at++;
+        queue.splice(at, 0, rest);
+        end = parent.end;
+      }
+
+      textUpTo(range.start);
+      const span = document.createElement('span');
+      span.className = range.className;
+      if (range.title) {
+        span.title = range.title;
+      }
+      container().appendChild(span);
+      open.push({ el: span, end });
+
+      if (!selectedEl && range.className.includes('selected')) {
+        selectedEl = span;
+      }
+    }
+
+    closeUpTo(Infinity);
+    textUpTo(str.length);
+
+    div.textContent = '';
+    div.appendChild(fragment);
+  });
+
+  return selectedEl;
+}
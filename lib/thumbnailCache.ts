@@ -0,0 +1,68 @@
+/**
+ * Low-resolution page thumbnails
+ * Rendered into an offscreen canvas and cached per document as JPEG data URLs,
+ * so closing and re-opening the sidebar never renders a page twice.
+ */
+
+export const THUMBNAIL_WIDTH = 120;
+
+const thumbnailCache = new WeakMap<object, Map<number, string>>();
+
+function docCache(pdfDoc: any): Map<number, string> {
+  let cache = thumbnailCache.get(pdfDoc);
+  if (!cache) {
+    cache = new Map();
+    thumbnailCache.set(pdfDoc, cache);
+  }
+  return cache;
+}
+
+export function getCachedThumbnail(pdfDoc: any, pageNumber: number): string | null {
+  return docCache(pdfDoc).get(pageNumber) || null;
+}
+
+/**
+ * Render a page thumbnail. `onRenderTask` receives the PDF.js render task so
+ * the caller can cancel it (e.g. when the main page starts rendering).
+ */
+export async function renderThumbnail(
+  pdfDoc: any,
+  pageNumber: number,
+  onRenderTask?: (task: any) => void
+): Promise<string> {
+  const cached = getCachedThumbnail(pdfDoc, pageNumber);
+  if (cached) {
+    return cached;
+  }
+
+  const page = await pdfDoc.getPage(pageNumber);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / unscaled.width });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable for thumbnail');
+  }
+
+  const renderTask = page.render({ canvasContext: ctx, viewport });
+  onRenderTask?.(renderTask);
+
+  try {
+    await renderTask.promise;
+  } finally {
+    onRenderTask?.(null);
+  }
+
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
+  docCache(pdfDoc).set(pageNumber, dataUrl);
+
+  // Drop the bitmap right away and let PDF.js free page resources
+  canvas.width = 0;
+  canvas.height = 0;
+  page.cleanup();
+
+  return dataUrl;
+}
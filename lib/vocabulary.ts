@@ -0,0 +1,86 @@
+import { DefinitionData, VocabularyEntry, WordContext } from '@/types/pdf';
+import { openDatabase, requestToPromise, transactionDone, createRecordId } from '@/lib/indexedDb';
+
+/**
+ * Vocabulary notebook
+ * Saved words with their definition and the sentence they were found in,
+ * stored in IndexedDB.
+ */
+
+const STORE = 'vocabulary';
+
+export function createVocabularyEntry(data: DefinitionData, context: WordContext | null): VocabularyEntry {
+  const now = Date.now();
+  return {
+    id: createRecordId(),
+    word: data.word,
+    definition: data.definition,
+    partOfSpeech: data.meanings?.[0]?.partOfSpeech,
+    language: data.language,
+    sentence: context?.sentence ?? null,
+    documentName: context?.documentName || '',
+    documentKey: context?.documentKey || '',
+    pageNumber: context?.pageNumber || 0,
+    tags: [],
+    notes: '',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * All entries, newest first
+ */
+export async function listVocabulary(): Promise<VocabularyEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const entries = await requestToPromise<VocabularyEntry[]>(store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function findVocabularyEntry(word: string, language?: string): Promise<VocabularyEntry | null> {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('word');
+    const matches = await requestToPromise<VocabularyEntry[]>(index.getAll(word));
+    return matches.find((e) => !language || !e.language || e.language === language) || null;
+  } catch (err) {
+    console.warn('[Vocabulary] Lookup failed:', err);
+    return null;
+  }
+}
+
+export async function saveVocabularyEntry(entry: VocabularyEntry): Promise<void> {
+  console.log('[Vocabulary] Saving entry:', entry.word);
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+}
+
+export async function deleteVocabularyEntry(id: string): Promise<void> {
+  console.log('[Vocabulary] Deleting entry:', id);
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * "Grammar, exam  prep,," → ["grammar", "exam prep"]
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map((t) => t.trim().replace(/\s+/g, ' ').toLowerCase())
+    .filter((t) => t.length > 0);
+  return Array.from(new Set(tags));
+}
+
+export function matchesVocabularyQuery(entry: VocabularyEntry, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [entry.word, entry.definition, entry.sentence || '', entry.notes, entry.documentName, ...entry.tags].some(
+    (field) => field.toLowerCase().includes(q)
+  );
+}
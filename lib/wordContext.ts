@@ -0,0 +1,103 @@
+import { getPageTextIndex } from '@/lib/pdfSearch';
+import { WordContext } from '@/types/pdf';
+
+/**
+ * Context of a clicked word: the sentence it appears in on its page,
+ * recovered from the page's text content.
+ */
+
+const MAX_SENTENCE_LENGTH = 300;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Expand [start, end) to the surrounding sentence. Long sentences are cut
+ * around the word and marked with an ellipsis.
+ */
+export function extractSentence(text: string, start: number, end: number): string {
+  let from = start;
+  while (from > 0 && !/[.!?…]/.test(text[from - 1])) {
+    from--;
+  }
+  let to = end;
+  while (to < text.length && !/[.!?…]/.test(text[to])) {
+    to++;
+  }
+  if (to < text.length) to++; // keep the closing punctuation
+
+  let sentence = text.slice(from, to).replace(/\s+/g, ' ').trim();
+
+  if (sentence.length > MAX_SENTENCE_LENGTH) {
+    const half = Math.floor(MAX_SENTENCE_LENGTH / 2);
+    const clipFrom = Math.max(from, start - half);
+    const clipTo = Math.min(to, end + half);
+    sentence =
+      (clipFrom > from ? '…' : '') +
+      text.slice(clipFrom, clipTo).replace(/\s+/g, ' ').trim() +
+      (clipTo < to ? '…' : '');
+  }
+
+  return sentence;
+}
+
+/**
+ * Find the sentence containing `word` (a normalized word or phrase) on a page.
+ * `hintText` is the text of the clicked text layer span; when given, the
+ * occurrence closest to that span wins over the first one on the page.
+ */
+export async function findContextSentence(
+  pdfDoc: any,
+  pageNumber: number,
+  word: string,
+  hintText?: string
+): Promise<string | null> {
+  try {
+    const index = await getPageTextIndex(pdfDoc, pageNumber);
+    const text = index.text.normalize('NFC');
+
+    const parts = word.split(/\s+/).map(escapeRegExp);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{M}])${parts.join('[\\s\\-‐]+')}(?![\\p{L}\\p{M}])`, 'giu');
+
+    let anchor = -1;
+    if (hintText) {
+      const itemIndex = index.itemStrs.indexOf(hintText);
+      if (itemIndex !== -1) anchor = index.itemStarts[itemIndex];
+    }
+
+    let best: RegExpExecArray | null = null;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (!best || (anchor !== -1 && Math.abs(match.index - anchor) < Math.abs(best.index - anchor))) {
+        best = match;
+      }
+      if (anchor === -1) break;
+    }
+
+    if (!best) {
+      console.log(`[WordContext] "${word}" not found in the text of page ${pageNumber}`);
+      return null;
+    }
+    return extractSentence(text, best.index, best.index + best[0].length);
+  } catch (err) {
+    console.error('[WordContext] Failed to read page text:', err);
+    return null;
+  }
+}
+
+export async function buildWordContext(
+  pdfDoc: any,
+  documentName: string,
+  documentKey: string,
+  pageNumber: number,
+  word: string,
+  hintText?: string
+): Promise<WordContext> {
+  return {
+    documentName,
+    documentKey,
+    pageNumber,
+    sentence: await findContextSentence(pdfDoc, pageNumber, word, hintText),
+  };
+}
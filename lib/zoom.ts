@@ -0,0 +1,95 @@
+/**
+ * Zoom levels, fit modes and per-document zoom persistence
+ */
+
+export type ZoomMode = 'custom' | 'fit-width' | 'fit-page';
+
+export interface ZoomSetting {
+  mode: ZoomMode;
+  scale: number; // Used when mode is 'custom'
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const ZOOM_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+export const MIN_SCALE = 0.25;
+export const MAX_SCALE = 5;
+export const DEFAULT_ZOOM: ZoomSetting = { mode: 'custom', scale: 1 };
+
+// Padding around a page inside the viewer (matches the p-4 wrappers)
+export const PAGE_PADDING = 16;
+
+const STORAGE_PREFIX = 'padf:zoom:';
+
+export function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+/**
+ * Resolve a zoom setting to a concrete scale for a page of the given
+ * unscaled (scale=1) size inside the available area.
+ */
+export function resolveScale(zoom: ZoomSetting, pageSize: Size, available: Size | null): number {
+  if (zoom.mode === 'custom' || !available || pageSize.width <= 0 || pageSize.height <= 0) {
+    return clampScale(zoom.scale);
+  }
+
+  const widthScale = available.width / pageSize.width;
+  if (zoom.mode === 'fit-width') {
+    return clampScale(widthScale);
+  }
+
+  const heightScale = available.height / pageSize.height;
+  return clampScale(Math.min(widthScale, heightScale));
+}
+
+export function zoomIn(scale: number): number {
+  const next = ZOOM_PRESETS.find((preset) => preset > scale + 0.001);
+  return clampScale(next ?? scale * 1.25);
+}
+
+export function zoomOut(scale: number): number {
+  const previous = [...ZOOM_PRESETS].reverse().find((preset) => preset < scale - 0.001);
+  return clampScale(previous ?? scale / 1.25);
+}
+
+/**
+ * Area a page may occupy inside the viewer: the container width and
+ * the visible window height (the viewer scrolls at 80vh), minus padding.
+ */
+export function measureAvailableSize(container: HTMLElement | null): Size | null {
+  if (!container) return null;
+  return {
+    width: Math.max(0, container.clientWidth - PAGE_PADDING * 2),
+    height: Math.max(0, window.innerHeight * 0.8 - PAGE_PADDING * 2),
+  };
+}
+
+export function loadZoomSetting(docKey: string): ZoomSetting | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + docKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (
+      parsed &&
+      (parsed.mode === 'custom' || parsed.mode === 'fit-width' || parsed.mode === 'fit-page') &&
+      typeof parsed.scale === 'number'
+    ) {
+      return { mode: parsed.mode, scale: clampScale(parsed.scale) };
+    }
+  } catch (err) {
+    console.warn('[Zoom] Failed to read saved zoom:', err);
+  }
+  return null;
+}
+
+export function saveZoomSetting(docKey: string, zoom: ZoomSetting) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + docKey, JSON.stringify(zoom));
+  } catch (err) {
+    console.warn('[Zoom] Failed to save zoom:', err);
+  }
+}
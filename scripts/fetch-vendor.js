@@ -0,0 +1,199 @@
+/**
+ * Fetch the vendored browser libraries
+ * Downloads the pinned npm packages whose files server.js serves from
+ * vendor/ (see the README in each vendor directory), checks each tarball
+ * against its pinned integrity and every extracted file against its pinned
+ * SHA-256, then copies the files into place. Files already there with the
+ * right hash are left alone.
+ *
+ *   node scripts/fetch-vendor.js          # everything
+ *   node scripts/fetch-vendor.js pdfjs    # one target (pdfjs, tesseract)
+ *
+ * Needs Node 18+ (fetch). NPM_REGISTRY points at a registry mirror;
+ * PDFJS_DIR changes where PDF.js goes, as it does for server.js.
+ */
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const ROOT = path.resolve(__dirname, '..');
+const REGISTRY = (process.env.NPM_REGISTRY || 'https://registry.npmjs.org').replace(/\/$/, '');
+
+// Tesseract language data (the integer-quantized LSTM models) as lang/<code>.traineddata.gz
+function languageData(code, integrity, sha256) {
+  return {
+    name: `@tesseract.js-data/${code}`,
+    version: '1.0.0',
+    integrity,
+    files: {
+      [`4.0.0_best_int/${code}.traineddata.gz`]: { to: `lang/${code}.traineddata.gz`, sha256 },
+    },
+  };
+}
+
+const TARGETS = {
+  pdfjs: {
+    dir: path.resolve(process.env.PDFJS_DIR || path.join(ROOT, 'vendor', 'pdfjs')),
+    packages: [
+      {
+        name: 'pdfjs-dist',
+        version: '3.11.174',
+        integrity: 'sha512-TdTZPf1trZ8/UFu5Cx/GXB7GZM30LT+wWUNfsi6Bq8ePLnb+woNKtDymI2mxZYBpMbonNFqKmiz684DIfnd8dA==',
+        files: {
+          'build/pdf.min.js': {
+            to: 'pdf.min.js',
+            sha256: '5b5799e6f8c680663207ac5b42ee14eed2a406fa7af48f50c154f0c0b1566946',
+          },
+          'build/pdf.worker.min.js': {
+            to: 'pdf.worker.min.js',
+            sha256: 'feabdf309770ed24bba31a5467836cdc8cf639c705af27d52b585b041bb8527b',
+          },
+        },
+      },
+    ],
+  },
+  tesseract: {
+    dir: path.join(ROOT, 'vendor', 'tesseract'),
+    packages: [
+      {
+        name: 'tesseract.js',
+        version: '5.1.1',
+        integrity: 'sha512-lzVl/Ar3P3zhpUT31NjqeCo1f+D5+YfpZ5J62eo2S14QNVOmHBTtbchHm/YAbOOOzCegFnKf4B3Qih9LuldcYQ==',
+        files: {
+          'dist/tesseract.min.js': {
+            to: 'tesseract.min.js',
+            sha256: 'a8e29918d098b2b06e1012bdaeffb4aec0445c5d5654709023e0bd1f442a80e8',
+          },
+          'dist/worker.min.js': {
+            to: 'worker.min.js',
+            sha256: 'aca1229639fc9907d86f96e825955a2b7c5716d17f3bc3acd71f9c7ab66181fc',
+          },
+        },
+      },
+      {
+        // lib/ocr.ts starts workers LSTM-only, which only ever load these two builds
+        name: 'tesseract.js-core',
+        version: '5.1.1',
+        integrity: 'sha512-KX3bYSU5iGcO1XJa+QGPbi+Zjo2qq6eBhNjSGR5E5q0JtzkoipJKOUQD7ph8kFyteCEfEQ0maWLu8MCXtvX5uQ==',
+        files: {
+          'tesseract-core-lstm.wasm.js': {
+            to: 'core/tesseract-core-lstm.wasm.js',
+            sha256: '8f04aa0cc81e7bde33f80e92fa01a7a665f0b4884d098acf5de9c7104a11dfaa',
+          },
+          'tesseract-core-simd-lstm.wasm.js': {
+            to: 'core/tesseract-core-simd-lstm.wasm.js',
+            sha256: 'ce20eda9533cbed1e6c2b4276fbae1e0adc61b6754b5513084be601787b457cf',
+          },
+        },
+      },
+      // Every language lib/ocr.ts maps a document language to
+      languageData('eng', 'sha512-mbTumm6KQPUHyzTPQaF3ObXYnx0SqqfV2nabqFVQBwD6Kl7PhGSLSzOlfFTWy0P3BjghaSKA2W9GB19Jk+ZcTg==', '45b4cb346724ac1774f1c36f42f182b887bcdb28ebe63e6fff90ac41f3fcff91'),
+      languageData('fra', 'sha512-pp58gMaoyidoBBLd5y5rnf0WW0Y1994QrGqZrYatITqIU/AReUJMykD+YY3JDgvnmgz7uAx1UmhjjuyEmV8JEA==', 'd611139672b3752c7097e671e4a1d9209dfd37f2aeb081ef6487fba3351e9255'),
+      languageData('deu', 'sha512-3ter1p2gFAiCd5CMC+PodZ9YY2UDomkKj+ytlKeeZqOUmhLx1SDnYPf5zog0g5MBbxYveW+8omI3PUflqHfZ4Q==', '306c4280d0cbed46fbff727486bd43b92730181bae80f56941a091f363bdf28b'),
+      languageData('spa', 'sha512-9Ln+QKq/TNu4Hy4aOp5b4nXo9U0C6IqJMzNDpAJZe/fNtz6jXG9G/hQgR/Irxj+RGf0M7Xy1MNx1yl4wQUIfeg==', '40be52f97b5d4eb7460073dc1f94cd546b27150333c0bf854ed7e7132db6bceb'),
+      languageData('ita', 'sha512-Sx19NVYve5VAxEBDL6CWTX+evlvzV+iAS5ejJywcHVsmir/C9Tzw2fExoh97QFc06t48tYZA8VrMobsBzMAEhA==', 'f702fcfad297ce028ede3626d1467b67939f23ff23595f9badd54681cf25a4d3'),
+      languageData('por', 'sha512-sQ7GqYUgKaMmV0vNujYoXLlXUp2e5RGGkJxQ3L59kUOaupIugLJeb1dqhrfgyb71XQw7ltdSuXdQIoaoS/rpsQ==', 'dacebc1386ddaaf8389f81094236cca0d690897cde693d48cbdaa881c86e2b4c'),
+      languageData('nld', 'sha512-Fq9TDxewYAw3YBLqLYEu3rziNUHq0F1NnnM49vI0E5o6S2oKcirhTumGvv8ws088+li1llyKXT9nfrHuxxetHQ==', 'a2d904b6ddc4feb0d31ecfcd7361a554102e7aa2e278c54f4fc029e0d0815571'),
+    ],
+  },
+};
+
+function sha256(buffer) {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+function tarballUrl(name, version) {
+  const base = name.split('/').pop();
+  return `${REGISTRY}/${name}/-/${base}-${version}.tgz`;
+}
+
+// Regular files of a .tgz, by their path inside the package ("package/" stripped)
+function untar(gzipped) {
+  const tar = zlib.gunzipSync(gzipped);
+  const files = new Map();
+  let offset = 0;
+
+  while (offset + 512 <= tar.length) {
+    const header = tar.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) break;
+
+    const field = (start, length) => header.toString('utf8', start, start + length).replace(/\0.*$/s, '');
+    const size = parseInt(field(124, 12).trim() || '0', 8);
+    const type = field(156, 1);
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+
+    if (type === '0' || type === '') {
+      files.set(name.replace(/^[^/]+\//, ''), tar.subarray(offset + 512, offset + 512 + size));
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return files;
+}
+
+async function fetchPackage(pkg, dir) {
+  const wanted = Object.values(pkg.files);
+  const missing = wanted.filter(({ to, sha256: hash }) => {
+    const file = path.join(dir, to);
+    return !fs.existsSync(file) || sha256(fs.readFileSync(file)) !== hash;
+  });
+  if (missing.length === 0) {
+    console.log(`[Vendor] ${pkg.name}@${pkg.version} already in ${path.relative(ROOT, dir) || dir}`);
+    return;
+  }
+
+  const url = tarballUrl(pkg.name, pkg.version);
+  console.log(`[Vendor] Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status}`);
+  }
+  const tarball = Buffer.from(await response.arrayBuffer());
+
+  const [algorithm, expected] = pkg.integrity.split(/-(.*)/s);
+  const actual = crypto.createHash(algorithm).update(tarball).digest('base64');
+  if (actual !== expected) {
+    throw new Error(`${pkg.name}@${pkg.version}: tarball integrity mismatch`);
+  }
+
+  // Check every file before writing any, so a bad package leaves nothing half-copied
+  const contents = untar(tarball);
+  const verified = Object.entries(pkg.files).map(([from, { to, sha256: hash }]) => {
+    const data = contents.get(from);
+    if (!data) {
+      throw new Error(`${pkg.name}@${pkg.version} has no ${from}`);
+    }
+    if (sha256(data) !== hash) {
+      throw new Error(`${pkg.name}@${pkg.version}: ${from} does not match its pinned SHA-256`);
+    }
+    return { to, data };
+  });
+
+  for (const { to, data } of verified) {
+    const file = path.join(dir, to);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, data);
+    console.log(`[Vendor] Wrote ${path.relative(ROOT, file) || file}`);
+  }
+}
+
+async function main() {
+  const names = process.argv.slice(2);
+  const unknown = names.filter((name) => !(name in TARGETS));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown target ${unknown.join(', ')} (available: ${Object.keys(TARGETS).join(', ')})`);
+  }
+
+  for (const name of names.length > 0 ? names : Object.keys(TARGETS)) {
+    const target = TARGETS[name];
+    for (const pkg of target.packages) {
+      await fetchPackage(pkg, target.dir);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error('[Vendor]', err.message);
+  process.exit(1);
+});
@@ -2,10 +2,15 @@ const http = require('http');
 const fs = require('fs');
 const path = require('path');
 
-const PORT = 5000;
+const PORT = Number(process.env.PORT) || 5000;
+// Offline dictionary files, served under /dictionary/ (see dictionary/README.md)
+const DICTIONARY_DIR = path.resolve(process.env.DICTIONARY_DIR || path.join(__dirname, 'dictionary'));
+// Local copy of PDF.js, served under /vendor/pdfjs/ (see vendor/pdfjs/README.md)
+const PDFJS_DIR = path.resolve(process.env.PDFJS_DIR || path.join(__dirname, 'vendor', 'pdfjs'));
 const MIME_TYPES = {
   '.html': 'text/html',
   '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
   '.jsx': 'text/javascript',
   '.tsx': 'text/typescript',
   '.ts': 'text/typescript',
@@ -16,16 +21,54 @@ const MIME_TYPES = {
   '.gif': 'image/gif',
   '.svg': 'image/svg+xml',
   '.pdf': 'application/pdf',
+  '.wasm': 'application/wasm',
 };
 
+// Path of a file under one of the mounted directories. Throws a URIError
+// for malformed percent-escapes; null if the path escapes the directory.
+function resolveMounted(dir, prefix, pathname) {
+  const filePath = path.join(dir, decodeURIComponent(pathname.slice(prefix.length)));
+  return filePath.startsWith(dir + path.sep) ? filePath : null;
+}
+
+function sendError(res, status, message) {
+  res.writeHead(status, { 'Content-Type': 'text/html' });
+  res.end(`<h1>${status} - ${message}</h1>`);
+}
+
 const server = http.createServer((req, res) => {
-  let filePath = req.url === '/' ? '/index.html' : req.url;
-  filePath = path.join(__dirname, filePath);
+  // Query strings (cache busters like ?v=1) don't name a different file
+  let pathname;
+  try {
+    pathname = new URL(req.url, 'http://localhost').pathname;
+  } catch (err) {
+    sendError(res, 400, 'Bad Request');
+    return;
+  }
+  let filePath = pathname === '/' ? '/index.html' : pathname;
+  const mount = filePath.startsWith('/dictionary/')
+    ? { dir: DICTIONARY_DIR, prefix: '/dictionary/' }
+    : filePath.startsWith('/vendor/pdfjs/')
+    ? { dir: PDFJS_DIR, prefix: '/vendor/pdfjs/' }
+    : null;
+  if (mount) {
+    try {
+      filePath = resolveMounted(mount.dir, mount.prefix, filePath);
+    } catch (err) {
+      sendError(res, 400, 'Bad Request');
+      return;
+    }
+    if (!filePath) {
+      sendError(res, 403, 'Forbidden');
+      return;
+    }
+  } else {
+    filePath = path.join(__dirname, filePath);
+  }
 
   fs.readFile(filePath, (err, content) => {
     if (err) {
-      res.writeHead(404, { 'Content-Type': 'text/html' });
-      res.end('<h1>404 - File Not Found</h1>');
+      sendError(res, 404, 'File Not Found');
     } else {
       const ext = path.extname(filePath);
       const mimeType = MIME_TYPES[ext] || 'application/octet-stream';
@@ -35,6 +78,10 @@ const server = http.createServer((req, res) => {
   });
 });
 
-server.listen(PORT, () => {
-  console.log(`Server running at http://localhost:${PORT}`);
-});
+if (require.main === module) {
+  server.listen(PORT, () => {
+    console.log(`Server running at http://localhost:${PORT}`);
+  });
+}
+
+module.exports = server;
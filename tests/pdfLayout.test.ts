@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { getPageLayout, ocrPageLines } from '@/lib/pdfLayout';
+
+// A PDF.js document whose pages have no text, counting page loads
+function fakeDocument(numPages: number, failFirstLoadOf?: number) {
+  const loads = new Map<number, number>();
+  const pdfDoc = {
+    numPages,
+    getPage: async (pageNumber: number) => {
+      const count = (loads.get(pageNumber) || 0) + 1;
+      loads.set(pageNumber, count);
+      if (pageNumber === failFirstLoadOf && count === 1) {
+        throw new Error('page failed to load');
+      }
+      return {
+        commonObjs: null,
+        getViewport: () => ({ width: 600, height: 800, convertToViewportPoint: (x: number, y: number) => [x, 800 - y] }),
+        getTextContent: async () => ({ items: [], styles: {} }),
+      };
+    },
+  };
+  return { pdfDoc, loads };
+}
+
+test('pages analysed together share one text extraction', async () => {
+  const { pdfDoc, loads } = fakeDocument(3);
+  await Promise.all([getPageLayout(pdfDoc, 1), getPageLayout(pdfDoc, 2), getPageLayout(pdfDoc, 3)]);
+
+  assert.deepStrictEqual([...loads.values()], [1, 1, 1]);
+});
+
+test('a failed extraction is not cached', async () => {
+  const { pdfDoc, loads } = fakeDocument(1, 1);
+  await assert.rejects(getPageLayout(pdfDoc, 1), /failed to load/);
+  await getPageLayout(pdfDoc, 1);
+  assert.strictEqual(loads.get(1), 2);
+});
+
+test('OCR words become lines in page units', () => {
+  const { lines, width, height } = ocrPageLines(
+    [
+      { text: 'Scanned', bbox: [0.1, 0.1, 0.2, 0.12], line: 0, confidence: 90 },
+      { text: 'page', bbox: [0.21, 0.1, 0.27, 0.12], line: 0, confidence: 90 },
+      { text: 'text.', bbox: [0.1, 0.13, 0.16, 0.15], line: 1, confidence: 90 },
+    ],
+    600,
+    800
+  );
+  assert.deepStrictEqual([width, height], [600, 800]);
+  assert.deepStrictEqual(
+    lines.map((line) => line.words.map((word) => word.text).join(' ')),
+    ['Scanned page', 'text.']
+  );
+  assert.ok(Math.abs(lines[0].box.x - 60) < 1e-9 && Math.abs(lines[0].box.y - 80) < 1e-9);
+});
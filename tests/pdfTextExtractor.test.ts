@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { characterOffsets, extractWordsFromTextContent, findWordAtPoint, MeasureText } from '@/lib/pdfTextExtractor';
+import { WordRect } from '@/types/pdf';
+import fixtures from './fixtures/pdfTextExtractor.json';
+
+// Glyph widths at 100px, standing in for canvas text measurement
+const WIDTHS: Record<string, number> = { i: 30, m: 90 };
+const DEFAULT_WIDTH = 60;
+const measure: MeasureText = (char) => WIDTHS[char] ?? DEFAULT_WIDTH;
+
+// The parts of PDF.js's text content the extractor reads
+interface TextContentFixture {
+  items: { str: string; transform: number[]; width: number; height: number; fontName: string }[];
+  styles: Record<string, { fontFamily: string; ascent?: number; descent?: number; vertical?: boolean }>;
+}
+
+interface Fixture {
+  name: string;
+  viewport: { width: number; height: number; transform: number[] };
+  textContent: TextContentFixture;
+  expected: Array<Partial<WordRect> & { word: string }>;
+  hits: Array<{ x: number; y: number; threshold?: number; word: string | null }>;
+}
+
+const cases: Fixture[] = fixtures.cases;
+
+// Just enough of PDF.js's PageViewport
+function makeViewport({ width, height, transform }: Fixture['viewport']) {
+  const [a, b, c, d, e, f] = transform;
+  return {
+    width,
+    height,
+    transform,
+    convertToViewportPoint: (x: number, y: number) => [a * x + c * y + e, b * x + d * y + f],
+  };
+}
+
+function assertClose(actual: number | undefined, expected: number, label: string) {
+  assert.ok(
+    actual !== undefined && Math.abs(actual - expected) < 1e-6,
+    `${label}: expected ${expected}, got ${actual}`
+  );
+}
+
+for (const fixture of cases) {
+  test(`extractWordsFromTextContent: ${fixture.name}`, () => {
+    const words = extractWordsFromTextContent(fixture.textContent, makeViewport(fixture.viewport), { measure });
+
+    assert.deepStrictEqual(
+      words.map((word) => word.word),
+      fixture.expected.map((word) => word.word)
+    );
+    fixture.expected.forEach((expected, i) => {
+      const word = words[i];
+      for (const key of ['x', 'y', 'width', 'height', 'start', 'end'] as const) {
+        if (expected[key] !== undefined) assertClose(word[key], expected[key]!, `${expected.word}.${key}`);
+      }
+      assertClose(word.centerX, expected.x! + expected.width! / 2, `${expected.word}.centerX`);
+      assertClose(word.centerY, expected.y! + expected.height! / 2, `${expected.word}.centerY`);
+      expected.quad?.forEach((value, j) => assertClose(word.quad?.[j], value, `${expected.word}.quad[${j}]`));
+    });
+
+    for (const hit of fixture.hits) {
+      const found = findWordAtPoint(words, hit.x, hit.y, hit.threshold);
+      assert.strictEqual(found?.word ?? null, hit.word, `hit at (${hit.x}, ${hit.y})`);
+    }
+  });
+}
+
+test('characterOffsets follows the measured glyph widths', () => {
+  const offsets = characterOffsets('mim iii', 'sans-serif', measure);
+  [0, 90, 120, 210, 270, 300, 330, 360].forEach((advance, i) => assertClose(offsets[i], advance / 360, `offsets[${i}]`));
+});
+
+test('characterOffsets indexes surrogate pairs by UTF-16 position', () => {
+  // '𝒂' is two code units but one glyph
+  assert.deepStrictEqual(characterOffsets('𝒂b', 'serif', measure), [0, 0, 0.5, 1]);
+});
+
+test('keepPunctuation keeps whole tokens', () => {
+  const [first] = cases;
+  const words = extractWordsFromTextContent(first.textContent, makeViewport(first.viewport), {
+    keepPunctuation: true,
+    measure,
+  });
+  assert.deepStrictEqual(
+    words.map((word) => word.word),
+    ['Hello,', 'world']
+  );
+  assertClose(words[0].width, 30, 'Hello,.width');
+});
@@ -0,0 +1,62 @@
+/**
+ * Test runner
+ * Loads every tests/*.test.js and tests/*.test.ts into Node's built-in test
+ * runner. The app has no build step, so TypeScript files are transpiled as
+ * they are required and `@/` imports resolve from the repository root, as
+ * they do in the browser.
+ *
+ *   node tests/run.js
+ *
+ * The TypeScript compiler is the only thing needed. If it isn't installed
+ * next to the repository, point NODE_PATH at a node_modules that has it,
+ * e.g. NODE_PATH="$(npm root -g)" after `npm install -g typescript`.
+ */
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+
+const ROOT = path.resolve(__dirname, '..');
+const EXTENSIONS = ['.ts', '.tsx', '.js'];
+
+let ts;
+try {
+  ts = require('typescript');
+} catch (err) {
+  console.error('[Tests] The TypeScript compiler is needed to run the tests (see tests/run.js).');
+  process.exit(1);
+}
+
+// `@/lib/foo` → <root>/lib/foo(.ts|.tsx|.js)
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, parent, ...rest) {
+  if (request.startsWith('@/')) {
+    const base = path.join(ROOT, request.slice(2));
+    const found = ['', ...EXTENSIONS].map((ext) => base + ext).find((file) => fs.existsSync(file) && fs.statSync(file).isFile());
+    if (found) return found;
+  }
+  return resolveFilename.call(this, request, parent, ...rest);
+};
+
+function compile(module, filename) {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      jsx: ts.JsxEmit.ReactJSX,
+      esModuleInterop: true,
+    },
+  });
+  module._compile(outputText, filename);
+}
+require.extensions['.ts'] = compile;
+require.extensions['.tsx'] = compile;
+
+const files = fs
+  .readdirSync(__dirname)
+  .filter((name) => /\.test\.(js|ts)$/.test(name))
+  .sort();
+
+for (const name of files) {
+  require(path.join(__dirname, name));
+}
@@ -0,0 +1,46 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const server = require('../server');
+
+// Raw request, so malformed paths reach the server exactly as written
+function get(port, requestPath) {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path: requestPath, method: 'GET' }, (res) => {
+      res.resume();
+      res.on('end', () => resolve(res.statusCode));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+test('server.js static and mounted files', async (t) => {
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  t.after(() => server.close());
+
+  await t.test('serves dictionary files', async () => {
+    assert.strictEqual(await get(port, '/dictionary/en/w.json'), 200);
+  });
+
+  await t.test('ignores the query string', async () => {
+    assert.strictEqual(await get(port, '/dictionary/en/w.json?v=1'), 200);
+    assert.strictEqual(await get(port, '/index.html?v=1'), 200);
+  });
+
+  await t.test('rejects malformed escapes without crashing', async () => {
+    assert.strictEqual(await get(port, '/dictionary/%E0'), 400);
+    assert.strictEqual(await get(port, '/vendor/pdfjs/%E0'), 400);
+    // Still serving afterwards
+    assert.strictEqual(await get(port, '/dictionary/en/w.json'), 200);
+  });
+
+  await t.test('keeps requests inside the mounted directory', async () => {
+    assert.strictEqual(await get(port, '/dictionary/..%2Fserver.js'), 403);
+  });
+
+  await t.test('answers 404 for missing files', async () => {
+    assert.strictEqual(await get(port, '/dictionary/en/missing.json'), 404);
+  });
+});
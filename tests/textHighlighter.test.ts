@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert';
+import { applyTextHighlights, TextLayerHighlight } from '@/lib/textHighlighter';
+
+// Just enough of the DOM for the highlighter: elements, text nodes and fragments
+class FakeNode {
+  children: FakeNode[] = [];
+  className = '';
+  title = '';
+  constructor(public tag: string, public text = '') {}
+
+  get childElementCount() {
+    return this.children.filter((child) => child.tag !== '#text').length;
+  }
+
+  get textContent(): string {
+    return this.tag === '#text' ? this.text : this.children.map((child) => child.textContent).join('');
+  }
+
+  set textContent(value: string) {
+    this.children = value ? [new FakeNode('#text', value)] : [];
+  }
+
+  appendChild(child: FakeNode) {
+    if (child.tag === '#fragment') {
+      this.children.push(...child.children);
+      child.children = [];
+    } else {
+      this.children.push(child);
+    }
+    return child;
+  }
+}
+
+(globalThis as any).document = {
+  createElement: (tag: string) => new FakeNode(tag),
+  createTextNode: (text: string) => new FakeNode('#text', text),
+  createDocumentFragment: () => new FakeNode('#fragment'),
+};
+
+// The span tree as text: [class: content]
+function describe(node: FakeNode): string {
+  return node.children
+    .map((child) => (child.tag === '#text' ? child.text : `[${child.className}: ${describe(child)}]`))
+    .join('');
+}
+
+function highlight(str: string, highlights: TextLayerHighlight[]) {
+  const div = new FakeNode('span', str);
+  const selected = applyTextHighlights([div as any], [str], highlights);
+  return { div, selected: selected as unknown as FakeNode | null };
+}
+
+test('applyTextHighlights wraps a range', () => {
+  const { div } = highlight('hello world', [{ ranges: [{ itemIndex: 0, start: 6, end: 11 }] }]);
+  assert.strictEqual(describe(div), 'hello [highlight: world]');
+});
+
+test('a search hit inside a saved highlight is nested, drawn and selectable', () => {
+  const annotation: TextLayerHighlight = { ranges: [{ itemIndex: 0, start: 0, end: 11 }], className: 'yellow' };
+  const hit: TextLayerHighlight = { ranges: [{ itemIndex: 0, start: 6, end: 11 }], selected: true };
+  const { div, selected } = highlight('hello world', [annotation, hit]);
+
+  assert.strictEqual(describe(div), '[highlight yellow: hello [highlight selected: world]]');
+  assert.ok(selected);
+  assert.strictEqual(selected!.textContent, 'world');
+});
+
+test('a range crossing the end of another is split around it', () => {
+  const { div } = highlight('abcdefgh', [
+    { ranges: [{ itemIndex: 0, start: 0, end: 4 }], className: 'a' },
+    { ranges: [{ itemIndex: 0, start: 2, end: 6 }], className: 'b' },
+  ]);
+  assert.strictEqual(describe(div), '[highlight a: ab[highlight b: cd]][highlight b: ef]gh');
+});
+
+test('highlights are replaced on the next pass', () => {
+  const { div } = highlight('hello world', [{ ranges: [{ itemIndex: 0, start: 0, end: 5 }] }]);
+  applyTextHighlights([div as any], ['hello world'], []);
+  assert.strictEqual(describe(div), 'hello world');
+});
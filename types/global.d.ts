@@ -4,6 +4,13 @@
 
 interface Window {
   pdfjsLib?: any;
+  // Where to load PDF.js from, tried in order (see lib/pdfLoaderCdn.ts)
+  pdfjsConfig?: { sources?: { name: string; scriptUrl: string; workerUrl: string }[] };
+  // Tesseract.js, loaded on demand for OCR (see lib/ocr.ts)
+  Tesseract?: any;
+  ocrConfig?: { scriptUrl?: string; workerPath?: string; corePath?: string; langPath?: string };
   baseUrl?: string;
   __PROTOFORGE_FINGERPRINTS__?: Record<string, any>;
+  // File System Access API (Chromium only)
+  showOpenFilePicker?: (options?: any) => Promise<FileSystemFileHandle[]>;
 }
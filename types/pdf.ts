@@ -6,16 +6,61 @@ export interface WordRect {
   height: number;
   centerX: number;
   centerY: number;
+  // Exact corners [x1, y1, ..., x4, y4] for rotated or skewed text
+  quad?: number[];
+  // Text item the word came from and its [start, end) in item.str
+  itemIndex?: number;
+  start?: number;
+  end?: number;
+}
+
+export interface Phonetic {
+  text?: string;
+  audio?: string;
+}
+
+export interface Sense {
+  definition: string;
+  example?: string;
+  synonyms: string[];
+  antonyms: string[];
+}
+
+export interface Meaning {
+  partOfSpeech: string;
+  senses: Sense[];
+  synonyms: string[];
+  antonyms: string[];
 }
 
 export interface DefinitionData {
   word: string;
   phonetic?: string;
+  // First sense of the first meaning, used by the compact popup view
   definition: string;
   example?: string;
+  phonetics?: Phonetic[];
+  meanings?: Meaning[];
+  sourceUrls?: string[];
+  // Name of the dictionary provider that answered
+  source?: string;
+  // The word as clicked, when the entry is for its base form ("studies" → "study")
+  inflectedForm?: string;
+  // Individual words of a multi-word selection
+  phraseWords?: string[];
+  // Language code the lookup was made in
+  language?: string;
   error?: string;
 }
 
+// Where a looked-up word was clicked
+export interface WordContext {
+  documentName: string;
+  documentKey: string;
+  pageNumber: number;
+  sentence: string | null;
+}
+
 export interface PopupState {
   visible: boolean;
   x: number;
@@ -24,4 +69,189 @@ export interface PopupState {
   loading: boolean;
   data: DefinitionData | null;
   error: string | null;
+  context: WordContext | null;
+  // Vocabulary entry id once the word has been saved
+  savedId: string | null;
+}
+
+export interface VocabularyEntry {
+  id: string;
+  word: string;
+  definition: string;
+  partOfSpeech?: string;
+  language?: string;
+  sentence: string | null;
+  documentName: string;
+  documentKey: string;
+  pageNumber: number;
+  tags: string[];
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+/**
+ * Part of a match inside one text layer item (one PDF.js text span).
+ * Offsets are character positions within that item's string.
+ */
+export interface HighlightRange {
+  itemIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  id: string;
+  pageNumber: number;
+  match: string;
+  before: string;
+  after: string;
+  ranges: HighlightRange[];
+}
+
+export type AnnotationKind = 'highlight' | 'note';
+
+/**
+ * A highlight or sticky note on a text range of one page. Ranges use the same
+ * text item offsets as search hits, so they re-apply to every render of the page.
+ */
+export interface Annotation {
+  id: string;
+  documentKey: string;
+  pageNumber: number;
+  kind: AnnotationKind;
+  color: string; // AnnotationColor id
+  ranges: HighlightRange[];
+  text: string; // The annotated text as selected
+  note: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A file chosen by the user, with its File System Access handle when available
+export interface OpenedFile {
+  file: File;
+  handle: FileSystemFileHandle | null;
+}
+
+export interface RecentDocument {
+  key: string; // Document fingerprint
+  name: string;
+  size: number;
+  numPages: number;
+  openedAt: number;
+  // How the file is reopened: a File System Access handle, or a stored copy
+  handle: FileSystemFileHandle | null;
+  blob: Blob | null;
+}
+
+export interface OcrWord {
+  text: string;
+  // Box as fractions of the page width/height: [left, top, right, bottom]
+  bbox: [number, number, number, number];
+  line: number; // Index of the recognized line, in reading order
+  confidence: number; // 0-100
+}
+
+export interface OcrPageResult {
+  key: string; // `${documentKey}:${pageNumber}`
+  documentKey: string;
+  pageNumber: number;
+  language: string; // Tesseract language, e.g. 'eng'
+  // Language the document is in when its data wasn't installed and `language` was used instead
+  missingLanguage?: string;
+  words: OcrWord[];
+  createdAt: number;
+}
+
+export interface ReviewCard {
+  id: string; // `${language}:${word}`
+  word: string;
+  language: string;
+  data: DefinitionData;
+  sentence: string | null;
+  documentName: string;
+  pageNumber: number;
+  // SM-2 scheduling state
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: number;
+  createdAt: number;
+  lastReviewedAt: number | null;
+}
+
+export interface ReviewLogEntry {
+  id: string;
+  cardId: string;
+  grade: number; // 0-5
+  reviewedAt: number;
+  interval: number;
+  easeFactor: number;
+}
+
+export interface LookupHistoryEntry {
+  id: string;
+  word: string;
+  language: string;
+  data: DefinitionData;
+  sentence: string | null;
+  documentName: string;
+  documentKey: string;
+  pageNumber: number;
+  lookedUpAt: number;
+}
+
+// Axis-aligned box in page units (the page viewport at scale 1)
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutWord {
+  text: string; // As printed, punctuation included
+  word: string; // What a click looks up; empty for bare punctuation
+  box: LayoutBox;
+  // Second half of a word hyphenated across a line break; the joined word
+  // belongs to the line it starts on
+  continuation?: LayoutBox;
+}
+
+export interface LayoutLine {
+  words: LayoutWord[];
+  box: LayoutBox;
+  fontSize: number;
+  text: string;
+}
+
+export interface LayoutBlock {
+  lines: LayoutLine[];
+  box: LayoutBox;
+  column: number; // Index from the left, or -1 for blocks spanning columns
+  fontSize: number;
+  text: string;
+}
+
+/**
+ * Structure of one page's text: blocks in reading order, with running
+ * headers and footers set apart.
+ */
+export interface PageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  blocks: LayoutBlock[];
+  header: LayoutLine[];
+  footer: LayoutLine[];
+  columns: number;
+  bodyFontSize: number; // Size most of the page's text is set in
 }